@@ -5,6 +5,21 @@ const subscribersKey = Symbol('subscribers');
 const notifyKey = Symbol('notify');
 const setKey = Symbol('set');
 const updateKey = Symbol('update');
+const equalsKey = Symbol('equals');
+const pendingCountKey = Symbol('pendingCount');
+const nameKey = Symbol('name');
+const dependenciesKey = Symbol('dependencies');
+const errorKey = Symbol('error');
+const isCompleteKey = Symbol('isComplete');
+const schedulerKey = Symbol('scheduler');
+const scopeStoresKey = Symbol('scopeStores');
+const hydratedValuesKey = Symbol('hydratedValues');
+const deferStopKey = Symbol('deferStop');
+const versionKey = Symbol('version');
+const isActiveKey = Symbol('isActive');
+const pullKey = Symbol('pull');
+const hasValueKey = Symbol('hasValue');
+const awaitKey = Symbol('await');
 
 /** A function which sets a store's value. */
 export type Setter<T> = (value: T) => void;
@@ -41,17 +56,121 @@ export type ExternalReadable<T = unknown> = {
     (subscriber: Subscriber<T>) => (() => void) | { unsubscribe: () => void },
 };
 
+declare global {
+  interface SymbolConstructor {
+    /** Defined by some polyfills and libraries, e.g., RxJS, to identify
+     * objects implementing the Observable interop protocol. */
+    readonly observable: symbol;
+  }
+}
+
+/** An object with RxJS's `Observer` interface. */
+export type Observer<T> = {
+  next?: (value: T) => void,
+  error?: (error: unknown) => void,
+  complete?: () => void,
+};
+
+/** An object which can be subscribed to with an `Observer`. */
+export type Subscribable<T> = {
+  subscribe: (observer: Observer<T>) => { unsubscribe: () => void },
+};
+
+/** An object implementing the Observable interop protocol, i.e., with a
+ * `Symbol.observable` (or `'@@observable'`) method returning a `Subscribable`.
+ * */
+export type InteropObservable<T = unknown> = {
+  [Symbol.observable]: () => Subscribable<T>,
+};
+
+/** A function which returns `true` if two values of a store should be
+ * considered equal, in which case a change is not propagated. */
+export type EqualityComparator<T> = (a: T, b: T) => boolean;
+
+/** A function which calls `flush` at some later time to notify the subscribers
+ * of stores set since the previous flush. */
+export type Scheduler = (flush: () => void) => void;
+
+/** A custom `Scheduler` or the name of a built-in one. `'sync'` notifies
+ * subscribers immediately whenever a store is set. */
+export type SchedulerOption = 'sync' | 'microtask' | 'animationFrame' | Scheduler;
+
+/** A reference-counted handle which keeps the stores created with it active
+ * after they lose their last subscriber, for as long as it is retained. */
+export type KeepAliveHandle = {
+  [deferStopKey]: (stop: () => void) => (() => void) | undefined,
+  /** Retain the handle until the returned function is called. */
+  retain: () => (() => void),
+};
+
+/** Options accepted by the store constructors. */
+export type StoreOptions<T> = {
+  /** A name used to identify the store when debugging. */
+  name?: string,
+  /** Replaces the default comparison, which considers every non-`null`
+   * `Object` and every `Function` to be changed when set. */
+  equals?: EqualityComparator<T>,
+  /** Called when a derived store enters an error state, either because its
+   * derive function threw or because a dependency entered an error state, and
+   * when a `persisted` store fails to save its value. */
+  onError?: (error: unknown) => void,
+  /** The scheduler used to notify subscribers when the store is set, instead
+   * of the one set with `setScheduler`. */
+  scheduler?: SchedulerOption,
+  /** Keep the store active, with its value and its subscriptions to other
+   * stores, for this many milliseconds after it loses its last subscriber, or
+   * while this handle is retained. A subscriber gained in the meantime reuses
+   * the active store instead of starting it again. */
+  keepAlive?: number | KeepAliveHandle,
+};
+
+/** The subscriptions and effects created within a call to `createRoot` or an
+ * effect, and the roots and effects nested within it. */
+type Owner = {
+  children: Set<() => void>,
+  disposers: Set<() => void>,
+};
+
+/** The error state of a derived store which failed to derive its value. The
+ * same object is shared by stores downstream which adopt the error. */
+type ErrorState = { error: unknown };
+
 /** A store created by this module which can be subscribed to. */
 export type Readable<T> = {
   [valueKey]: T,
+  /** Whether `valueKey` holds a value given to the store, rather than the
+   * placeholder `undefined` of a store created without an initial value. */
+  [hasValueKey]: boolean,
+  [equalsKey]?: EqualityComparator<T>,
+  [nameKey]?: string,
+  [dependenciesKey]?: Array<Readable<any>>,
+  [errorKey]?: ErrorState,
+  [isCompleteKey]?: boolean,
   [isDerivedKey]?: boolean,
   [isSyncingKey]?: boolean,
+  [schedulerKey]?: SchedulerOption,
+  [pendingCountKey]: number,
+  /** Incremented whenever the store's value or error state changes. */
+  [versionKey]: number,
+  /** Whether the store has been started and not yet stopped. */
+  [isActiveKey]: boolean,
+  /** Return the store's current value without starting it, if supported. */
+  [pullKey]?: () => T,
+  /** If the store may be about to change without having invalidated its
+   * subscribers, arrange for `subscriber` to be called once it settles and
+   * return `true`. */
+  [awaitKey]?: (subscriber: SubscriberInvalidator<T>) => boolean,
   [subscribersKey]: Subscribers<T>,
-  [notifyKey]: (isChanged: boolean) => void,
+  [notifyKey]: (isChanged: boolean, isInvalidated?: boolean) => void,
   [setKey]: Setter<T>,
   [updateKey]: (fn: Updater<T>) => void,
   subscribe:
     (subscriber: Subscriber<T> | SubscriberInvalidator<T>) => (() => void),
+  [Symbol.observable]: () => Subscribable<T> & {
+    subscribe: (observer: Observer<T> | Subscriber<T>) => { unsubscribe: () => void },
+  },
+  /** Iterate over the store's current and future values. See `iterate`. */
+  [Symbol.asyncIterator]: () => AsyncIterableIterator<T>,
 };
 
 /** A store which can be subscribed to and has `set` and `update` methods. */
@@ -60,20 +179,36 @@ export type Writable<T> = Readable<T> & {
   update: (fn: Updater<T>) => void,
 };
 
+/** Any store or observable accepted by `wrapStore`. */
+type AnyReadable<T = any> =
+  | Readable<T>
+  | ExternalReadable<T>
+  | InteropObservable<T>;
+
+/** `Readable`s keyed by name. */
+type StoresRecord = { [key: string]: AnyReadable };
+
 /** One or more `Readable`s. Spread syntax is important for `StoresValues`. */
 type Stores =
-  | Readable<any>
-  | ExternalReadable<any>
-  | [
-    Readable<any> | ExternalReadable<any>,
-    ...Array<Readable<any> | ExternalReadable<any>>,
-  ];
-
-/** One or more values from `Readable` stores. */
+  | AnyReadable
+  | [AnyReadable, ...Array<AnyReadable>]
+  | StoresRecord;
+
+/** Two or more `Writable`s. */
+type WritableStoresTuple = [Writable<any>, ...Array<Writable<any>>];
+
+/** The values of two or more `Writable`s. Unlike `StoresValues`, this is not a
+ * conditional type, which allows TypeScript to infer `Array` literals returned
+ * by a `ReverseDeriveValue` as tuples. */
+type WritableStoresTupleValues<S extends WritableStoresTuple> = {
+  [K in keyof S]: S[K] extends Writable<infer U> ? U : never
+};
+
+/** One or more values from `Readable` stores, in the same shape as the stores
+ * themselves. */
 type StoresValues<T> =
-  T extends Readable<infer U> | ExternalReadable<infer U> ? U : {
-    [K in keyof T]:
-      T[K] extends Readable<infer U> | ExternalReadable<infer U> ? U : never
+  T extends AnyReadable<infer U> ? U : {
+    [K in keyof T]: T[K] extends AnyReadable<infer U> ? U : never
   };
 
 /** A function which is called whenever a store receives its first subscriber,
@@ -102,6 +237,269 @@ export type ComplexDeriveValue<S, T> = (
 export type SimpleDeriveValue<S, T> =
   (values: S extends Stores ? StoresValues<S> : S) => T;
 
+/** A function which derives a value from the dependency stores' values
+ * asynchronously. `signal` is aborted once the result is no longer needed. */
+export type AsyncDeriveValue<S, T> = (
+  values: S extends Stores ? StoresValues<S> : S,
+  context: { signal: AbortSignal },
+) => Promise<T>;
+
+/** The state of a store created by `asyncDerived`. The most recent fulfilled
+ * value is retained while pending or rejected. */
+export type AsyncState<T> =
+  | { status: 'pending', value: T | undefined, error: undefined }
+  | { status: 'fulfilled', value: T, error: undefined }
+  | { status: 'rejected', value: T | undefined, error: unknown };
+
+/** A function run by `effect` with the dependency stores' values, which may
+ * return a function to clean up before the next run and on disposal. */
+export type EffectCallback<S> = (values: StoresValues<S>) => (() => void) | void;
+
+/** A source of timers, which can be replaced with a fake one in tests. */
+export type Clock = {
+  setTimeout: (callback: () => void, ms: number) => unknown,
+  clearTimeout: (handle: any) => void,
+};
+
+/** Options accepted by `debounce`. */
+export type TimingOptions<T> = StoreOptions<T> & {
+  /** The clock used to schedule updates. Defaults to the global timers. */
+  clock?: Clock,
+};
+
+/** Options accepted by `throttle`. */
+export type ThrottleOptions<T> = TimingOptions<T> & {
+  /** Whether to update immediately on the first change in a period. Defaults to
+   * `true`. */
+  leading?: boolean,
+  /** Whether to update at the end of a period to the latest value from during
+   * it. Defaults to `true`. */
+  trailing?: boolean,
+};
+
+/** A synchronous key–value storage backend for `persisted` stores. */
+export type PersistentStorage = {
+  getItem: (key: string) => string | null,
+  setItem: (key: string, value: string) => void,
+  /** Call `onChange` whenever the item with key `key` is changed from outside
+   * of this storage object, e.g., from another tab. Return a function which
+   * stops watching. */
+  watch?: (key: string, onChange: (value: string | null) => void) => () => void,
+};
+
+/** An object which converts values to and from text, e.g., `JSON`. */
+export type Serializer = {
+  parse: (text: string) => any,
+  stringify: (value: any) => string,
+};
+
+/** Options accepted by `persisted`. */
+export type PersistedOptions<T> = StoreOptions<T> & {
+  /** Defaults to `localStorage`, or in-memory storage if unavailable. */
+  storage?: PersistentStorage,
+  /** Defaults to `JSON`. */
+  serializer?: Serializer,
+  /** The version of the shape of the stored value. Defaults to `0`. */
+  version?: number,
+  /** Upgrade a value stored with an older `version`, or stored without one,
+   * e.g., by code predating the store, in which case `fromVersion` is `-1`. If
+   * omitted, such values are discarded in favour of the initial value. */
+  migrate?: (value: any, fromVersion: number) => T,
+};
+
+/** A container of stores created per scope, e.g., per server-side request,
+ * instead of once per module. */
+export type Scope = {
+  [scopeStoresKey]: Map<string, Readable<any>>,
+  [hydratedValuesKey]: Map<string, unknown>,
+  /** Return the store of this scope registered under `key`, calling `create`
+   * to create it on first use. */
+  store: <S extends Readable<any>>(key: string, create: () => S) => S,
+};
+
+/** The values of the `Writable` stores of a scope, keyed by their keys. */
+export type ScopeSnapshot = Record<string, unknown>;
+
+/** A channel to other execution contexts, e.g., a `BroadcastChannel`, a
+ * `MessagePort` or a `Worker`. */
+export type MessagePortLike = {
+  postMessage: (message: any) => void,
+  addEventListener: (type: 'message', listener: (event: MessageEvent) => void) => void,
+  removeEventListener: (type: 'message', listener: (event: MessageEvent) => void) => void,
+  start?: () => void,
+};
+
+/** A function which returns the value to keep when a value is received from
+ * another context. */
+export type ConflictResolver<T> = (localValue: T, remoteValue: T) => T;
+
+/** Options accepted by `syncStore`. */
+export type SyncOptions<T> = {
+  /** Identifies the store among others synchronised over the same channel. */
+  id: string,
+  /** Defaults to sending values as they are, to be copied by the channel. */
+  serializer?: Serializer,
+  /** Defaults to `'lastWriterWins'`. */
+  conflict?: 'lastWriterWins' | ConflictResolver<T>,
+};
+
+/** A snapshot of a store's internal state, returned by `inspect`. */
+export type StoreInspection<T> = {
+  name: string | undefined,
+  /** The cached value, which may be stale if the store is not active. */
+  value: T,
+  subscriberCount: number,
+  isDerived: boolean,
+  /** For stores created by `computed`, only the dependencies read during the
+   * most recent evaluation while active. */
+  dependencies: Array<Readable<any>>,
+  /** The error of a derived store in an error state, otherwise `undefined`. */
+  error: unknown,
+  /** `true` if the store has been started and not yet stopped, which includes
+   * while it is kept alive without subscribers by the `keepAlive` option. */
+  isActive: boolean,
+  /** `true` while the store is re-evaluating its value. */
+  isSyncing: boolean,
+  /** The number of dependencies which have been invalidated but are yet to
+   * notify the store of their new values. */
+  pendingCount: number,
+};
+
+/** Functions called by this module as stores are used, e.g., for logging or
+ * profiling. */
+export type InstrumentationHooks = {
+  /** Called whenever a store is set, including by its own re-evaluation. */
+  onSet?: (store: Readable<any>, value: unknown, isChanged: boolean) => void,
+  /** Called when a store invalidates its subscribers. */
+  onInvalidate?: (store: Readable<any>) => void,
+  /** Called after a derived store re-evaluates, with the duration in
+   * milliseconds. */
+  onRecompute?: (store: Readable<any>, duration: number) => void,
+  /** Called when a store notifies its subscribers. */
+  onNotify?: (store: Readable<any>, isChanged: boolean) => void,
+  /** Called when a store receives its first subscriber. */
+  onStart?: (store: Readable<any>) => void,
+  /** Called when a store loses its last subscriber. */
+  onStop?: (store: Readable<any>) => void,
+  /** Called when a subscriber throws or a derive function throws. If unset,
+   * errors thrown by subscribers are re-thrown once every other subscriber
+   * has been notified. */
+  onError?: (error: unknown, store: Readable<any>) => void,
+};
+
+/** Aggregated statistics for one store, collected by a profiler. */
+export type ProfileEntry = {
+  store: Readable<any>,
+  name: string | undefined,
+  recomputeCount: number,
+  /** The total time spent re-evaluating the store, in milliseconds. */
+  recomputeTime: number,
+  notifyCount: number,
+};
+
+/** A pair of functions which read a value from a parent value and write it
+ * back immutably, returning a new parent value. */
+export type Lens<P, C> = {
+  get: (parent: P) => C,
+  set: (parent: P, value: C) => P,
+};
+
+/** The type of the value found by following the keys in `K` from `T`. */
+export type PathValue<T, K extends ReadonlyArray<PropertyKey>> =
+  K extends readonly [infer Head, ...infer Tail extends ReadonlyArray<PropertyKey>]
+    ? Head extends keyof NonNullable<T>
+      ? PathValue<NonNullable<T>[Head], Tail>
+      : undefined
+    : T;
+
+/** A function which returns new values for the dependency stores of a store
+ * created by `writableDerived`, given a new value for that store and the
+ * dependency stores' current values. */
+export type ReverseDeriveValue<V, T> = (value: T, values: V) => V;
+
+/** Options accepted by `withHistory`. */
+export type HistoryOptions<T> = {
+  /** The maximum number of entries to keep for undoing. Defaults to no limit. */
+  limit?: number,
+  /** Record changes made within this many milliseconds of the previous change
+   * as a single entry, unless a checkpoint was made in between. Pass `Infinity`
+   * to group changes by checkpoints only. Defaults to `0`. */
+  coalesceMs?: number,
+  /** Do not record changes to a value which is equal to the previous value
+   * according to this function. */
+  equals?: EqualityComparator<T>,
+};
+
+/** A `Writable` store which records changes to its value so that they can be
+ * undone and redone. */
+export type HistoryStore<T> = Writable<T> & {
+  /** Restore the value from before the most recent entry. */
+  undo: () => void,
+  /** Restore the value from before the most recent undo. */
+  redo: () => void,
+  /** Forget every entry without changing the current value. */
+  clear: () => void,
+  /** End the current entry so that the next change starts a new one. */
+  checkpoint: () => void,
+  canUndo: Readable<boolean>,
+  canRedo: Readable<boolean>,
+};
+
+/** Options accepted by `mapStore`, `setStore` and `arrayStore`. Their
+ * collections are mutated in place, so every change is compared against the
+ * same object and `equals` could never detect one. */
+export type CollectionStoreOptions<C> = Omit<StoreOptions<C>, 'equals'>;
+
+/** A `Readable` of a collection which can be mutated in place through its
+ * methods and which provides `Readable`s of individual entries. */
+export type CollectionStore<C, K, V> = Readable<C> & {
+  /** Return a `Readable` of the entry at `key` which only notifies its
+   * subscribers when that entry changes. */
+  key: (key: K) => Readable<V>,
+  /** The keys changed since the store's previous notification, as of its most
+   * recent notification. */
+  readonly changedKeys: ReadonlyArray<K>,
+};
+
+/** A `Readable` of a `Map` which can be mutated with its methods. */
+export type MapStore<K, V> = CollectionStore<ReadonlyMap<K, V>, K, V | undefined> & {
+  setKey: (key: K, value: V) => void,
+  delete: (key: K) => boolean,
+  clear: () => void,
+};
+
+/** A `Readable` of a `Set` which can be mutated with its methods. Its entries'
+ * `Readable`s hold whether each value is present. */
+export type SetStore<T> = CollectionStore<ReadonlySet<T>, T, boolean> & {
+  add: (value: T) => void,
+  delete: (value: T) => boolean,
+  clear: () => void,
+};
+
+/** A `Readable` of an `Array` which can be mutated with its methods. Its
+ * entries are keyed by index. */
+export type ArrayStore<T> = CollectionStore<ReadonlyArray<T>, number, T | undefined> & {
+  setIndex: (index: number, value: T) => void,
+  push: (...items: Array<T>) => number,
+  pop: () => T | undefined,
+  splice: (start: number, deleteCount?: number, ...items: Array<T>) => Array<T>,
+};
+
+/** Options accepted by `iterate`. */
+export type IterateOptions = {
+  /** Whether to keep only the latest value not yet consumed (`'latest'`, the
+   * default) or every value not yet consumed (`'queue'`). */
+  buffer?: 'latest' | 'queue',
+};
+
+/** Options accepted by `until` and `next`. */
+export type WaitOptions = {
+  /** Reject with the signal's reason if it is aborted before the value. */
+  signal?: AbortSignal,
+  /** Reject if the value has not arrived within this many milliseconds. */
+  timeout?: number,
+};
+
 const noOp = () => {};
 
 /**
@@ -119,6 +517,130 @@ const areUnequal = (a: any, b: any) => (
     )
 );
 
+/** Stands in for the previous value of a store which did not yet hold one. */
+const noValue = Symbol('noValue');
+
+/**
+ * Return the value of `store` to later compare its new value against with
+ * `isChangedValue`, or `noValue` if it does not yet hold a value.
+ */
+const getComparableValue = <T>(store: Readable<T>): T => (
+  store[hasValueKey] ? store[valueKey] : noValue as T
+);
+
+/**
+ * Return `true` if `value` should be considered a change from the current value
+ * of `store`, using the store's `equals` option if it has one. The option is
+ * only called with values the store has actually held.
+ */
+const isChangedValue = <T>(store: Readable<T>, value: T) => (
+  value === noValue
+  || (
+    store[equalsKey] && store[hasValueKey]
+      ? !store[equalsKey](value, store[valueKey])
+      : areUnequal(value, store[valueKey])
+  )
+);
+
+/**
+ * Set the error state of a derived store, calling its `onError` option if it
+ * enters a new error state. Return `true` if the error state changed.
+ */
+const setErrorState = <T>(
+  store: Readable<T>,
+  errorState: ErrorState | undefined,
+  options: StoreOptions<T> = {},
+) => {
+  if (errorState === store[errorKey]) return false;
+  store[errorKey] = errorState;
+  store[versionKey] += 1;
+  if (errorState !== undefined) options.onError?.(errorState.error);
+  return true;
+};
+
+/**
+ * Return `true` if `a` and `b` are identical, treating `NaN` as identical to
+ * itself.
+ */
+const isSameValue = (a: any, b: any) => a === b || (a !== a && b !== b);
+
+/**
+ * Return `true` if `a` and `b` are identical or are `Array`s or plain
+ * `Object`s whose own enumerable properties are identical.
+ */
+export const shallowEqual = (a: any, b: any): boolean => {
+  if (isSameValue(a, b)) return true;
+  if (
+    typeof a !== 'object' || a === null
+    || typeof b !== 'object' || b === null
+    || Array.isArray(a) !== Array.isArray(b)
+    || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(key => (
+    Object.hasOwn(b, key) && isSameValue(a[key], b[key])
+  ));
+};
+
+/**
+ * Return `true` if `a` and `b` are structurally equal. `Array`s, plain
+ * `Object`s, `Map` values and `Date`s are compared by content, recursively.
+ * `Set` members and `Map` keys are looked up by identity, as `has()` does.
+ * Other `Object`s are compared by identity.
+ */
+export const deepEqual = (
+  a: any,
+  b: any,
+  seen = new Map<object, object>(),
+): boolean => {
+  if (isSameValue(a, b)) return true;
+  if (
+    typeof a !== 'object' || a === null
+    || typeof b !== 'object' || b === null
+    || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  // Assume equality for pairs already being compared further up the stack so
+  // that cyclic structures terminate.
+  if (seen.get(a) === b) return true;
+  seen.set(a, b);
+
+  if (a instanceof Date) return a.getTime() === b.getTime();
+
+  if (a instanceof Set) {
+    if (a.size !== b.size) return false;
+    for (const item of a) if (!b.has(item)) return false;
+    return true;
+  }
+
+  if (a instanceof Map) {
+    if (a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (!b.has(key) || !deepEqual(value, b.get(key), seen)) return false;
+    }
+    return true;
+  }
+
+  const prototype = Object.getPrototypeOf(a);
+  if (
+    !Array.isArray(a) && prototype !== Object.prototype && prototype !== null
+  ) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(key => (
+    Object.hasOwn(b, key) && deepEqual(a[key], b[key], seen)
+  ));
+};
+
 /**
  * Create a `DisableableSetterUpdater<T>` for the given store.
  */
@@ -135,319 +657,2713 @@ const createDisableableSetterUpdater = <T>(
   return state;
 };
 
+/** The hooks currently set with `configure`. */
+let hooks: InstrumentationHooks = {};
+
 /**
- * Create an internal store.
+ * Set the instrumentation hooks called by this module, replacing any set
+ * previously. Return a function which restores the previous hooks.
  */
-const createStore = <T>(
-  initialValue?: T,
-  onStart: OnStart<T> | DerivedOnStart<T> = noOp,
-): Readable<T> => {
-  const subscribers = [] as Subscribers<T>;
-  let onStop = noOp;
+export const configure = (newHooks: InstrumentationHooks) => {
+  const previousHooks = hooks;
+  hooks = { ...newHooks };
+  return function restore() { hooks = previousHooks; };
+};
 
-  const store: Readable<T> = {
-    [valueKey]: initialValue as T,
-    [subscribersKey]: subscribers,
+/**
+ * Call the invalidator of every subscriber to `store` which has one.
+ */
+const invalidateSubscribers = (store: Readable<any>) => {
+  hooks.onInvalidate?.(store);
+  if (isDebugMode) touchedStores.add(store);
+  for (const subscriber of store[subscribersKey]) {
+    if (Array.isArray(subscriber)) subscriber[1]();
+  }
+};
 
-    [notifyKey](isChanged) {
-      for (const subscriber of subscribers) {
-        if (Array.isArray(subscriber)) {
-          if (isChanged || this[isDerivedKey]) {
-            subscriber[0](this[valueKey], isChanged);
-          }
-        } else {
-          if (isChanged) subscriber(this[valueKey]);
-        }
-      }
-    },
+/** The number of store notifications and re-evaluations currently executing. */
+let propagationDepth = 0;
 
-    [setKey](value) {
-      const isChanged = areUnequal(value, this[valueKey]);
+/** The derived stores currently being re-evaluated, innermost last. */
+const evaluatingStores = [] as Array<Readable<any>>;
 
-      if (isChanged && !this[isSyncingKey]) {
-        for (const subscriber of subscribers) {
-          if (Array.isArray(subscriber)) subscriber[1]();
-        }
-      }
+/** The stores written to during propagation whose notification is deferred
+ * until it completes, each with its value from before the first such write and
+ * the derived store being re-evaluated when that write was made, if any. */
+const queuedWrites = [] as Array<[Readable<any>, any, Readable<any> | undefined]>;
+let isDrainingQueuedWrites = false;
 
-      if (isChanged) this[valueKey] = value;
+/** The number of deferred notifications of the same store allowed in a single
+ * propagation before it is considered to be caused by a cycle. */
+const maxQueuedWritesPerStore = 100;
 
-      if (!this[isSyncingKey]) this[notifyKey](isChanged);
-    },
+/**
+ * Return the name of `store` for use in error messages.
+ */
+const describeStore = (store: Readable<any>) => (
+  store[nameKey] === undefined ? '(unnamed store)' : `\`${store[nameKey]}\``
+);
 
-    [updateKey](fn) {
-      this[setKey](fn(this[valueKey]));
-    },
+/**
+ * Return a path of dependencies leading from `from` up to `to`, inclusive, or
+ * `undefined` if `to` is not upstream of `from`.
+ */
+const findDependencyPath = (
+  from: Readable<any>,
+  to: Readable<any>,
+  visited = new Set<Readable<any>>(),
+): Array<Readable<any>> | undefined => {
+  if (from === to) return [from];
+  if (visited.has(from)) return undefined;
+  visited.add(from);
 
-    subscribe(subscriber) {
-      let setterUpdater: DisableableSetterUpdater<T>;
+  for (const dependency of from[dependenciesKey] ?? []) {
+    const path = findDependencyPath(dependency, to, visited);
+    if (path) return [from, ...path];
+  }
+  return undefined;
+};
 
-      if (subscribers.length === 0) {
-        if (this[isDerivedKey]) {
-          onStop = (onStart as DerivedOnStart<T>)(this as Writable<T>)
-            || noOp;
-        } else {
-          setterUpdater = createDisableableSetterUpdater(this);
-          onStop = (onStart as OnStart<T>)(
-            setterUpdater.set,
-            setterUpdater.update,
-          ) || noOp;
-        }
+/**
+ * Create an `Error` describing a cycle formed by `writer` repeatedly setting
+ * `store`, naming the chain of stores involved.
+ */
+const createCycleError = (
+  store: Readable<any>,
+  writer: Readable<any> | undefined,
+) => {
+  const path = writer && findDependencyPath(writer, store);
+  const chain = path
+    ? [...path.reverse(), store].map(describeStore).join(' → ')
+    : undefined;
+
+  return new Error(
+    `Cycle detected: ${describeStore(store)} was set more than `
+      + `${maxQueuedWritesPerStore} times in a single update`
+      + (chain ? `. Chain: ${chain}.` : ' by its own subscribers.'),
+  );
+};
+
+/**
+ * Notify the subscribers of the stores written to during propagation in the
+ * order they were first written to. Stores written to while notifying them are
+ * queued and notified in turn.
+ */
+const drainQueuedWrites = () => {
+  if (isDrainingQueuedWrites) return;
+  isDrainingQueuedWrites = true;
+
+  const writeCounts = new Map<Readable<any>, number>();
+  try {
+    while (queuedWrites.length > 0) {
+      const [store, oldValue, writer] = queuedWrites.shift()!;
+      const writeCount = (writeCounts.get(store) ?? 0) + 1;
+      writeCounts.set(store, writeCount);
+
+      if (writeCount > maxQueuedWritesPerStore) {
+        queuedWrites.length = 0;
+        throw createCycleError(store, writer);
       }
+      store[notifyKey](isChangedValue(store, oldValue), true);
+    }
+  } finally {
+    isDrainingQueuedWrites = false;
+  }
+};
 
-      subscribers.push(subscriber);
-      (Array.isArray(subscriber) ? subscriber[0] : subscriber)(this[valueKey]);
+/** The owner of the subscriptions and effects currently being created, if
+ * any. See `createRoot`. */
+let activeOwner: Owner | undefined;
 
-      return function unsubscribe() {
-        const subscriberIndex = subscribers.indexOf(subscriber);
-        if (subscriberIndex !== -1) subscribers.splice(subscriberIndex, 1);
+/** The effects to run once the current propagation completes. */
+const pendingEffects = new Set<() => void>();
+let isRunningEffects = false;
 
-        if (subscribers.length === 0) {
-          onStop();
-          if (setterUpdater !== undefined) setterUpdater.enabled = false;
-        }
-      };
-    },
-  };
+/**
+ * Run the pending effects, unless a propagation, batch flush or effect is still
+ * executing. Effects which become pending while running them are run in turn.
+ */
+const runPendingEffects = () => {
+  if (
+    propagationDepth > 0
+    || flushDepth > 0
+    || isDrainingQueuedWrites
+    || isRunningEffects
+  ) {
+    return;
+  }
+  isRunningEffects = true;
 
-  // Allow consumers to pass around a store's `subscribe` method (e.g., to
-  // another function) more liberally without breaking it.
-  store.subscribe = store.subscribe.bind(store);
+  const errors = [] as Array<unknown>;
+  try {
+    for (const run of pendingEffects) {
+      pendingEffects.delete(run);
+      try {
+        run();
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  } finally {
+    isRunningEffects = false;
+  }
+  if (errors.length > 0) throw errors[0];
+};
 
-  return store;
+/**
+ * Mark the end of a notification or re-evaluation. If it was the outermost one,
+ * notify the subscribers of the stores written to during it and then run
+ * pending effects.
+ */
+const finishPropagation = () => {
+  propagationDepth -= 1;
+  if (propagationDepth === 0) {
+    if (isDebugMode) assertSettled();
+    drainQueuedWrites();
+    runPendingEffects();
+  }
 };
 
 /**
- * Create a `Writable` store that allows both updating and reading by
- * subscription.
- *
- * https://svelte.dev/docs/svelte-store#writable
+ * Throw if `store` is being re-evaluated, naming the chain of stores whose
+ * re-evaluation led back to it.
  */
-export const writable = <T>(
-  initialValue: T | undefined,
-  onStart: OnStart<T> | undefined = noOp,
-) => {
-  const store = createStore(initialValue, onStart) as Writable<T>;
-  store.update = store[updateKey].bind(store);
-  store.set = store[setKey].bind(store);
-  return store;
+const assertNotEvaluating = (store: Readable<any>) => {
+  const index = evaluatingStores.indexOf(store);
+  if (index !== -1) {
+    const chain = [...evaluatingStores.slice(index), store];
+    throw new Error(`Cycle detected: ${chain.map(describeStore).join(' → ')}.`);
+  }
 };
 
 /**
- * Creates a `Readable` store that allows reading by subscription.
- *
- * https://svelte.dev/docs/svelte-store#readable
+ * Mark the start of the re-evaluation of a derived store.
  */
-export const readable = createStore;
+const startEvaluation = (store: Readable<any>) => {
+  assertNotEvaluating(store);
+  evaluatingStores.push(store);
+  propagationDepth += 1;
+};
 
-const wrappedStores = new Map<ExternalReadable<any>, Readable<any>>();
 /**
- * Wrap an external (non-native) store as a `Readable`. Stores implementing
- * RxJS's `Observable` interface are accepted.
+ * Mark the end of the re-evaluation of a derived store.
  */
-const wrapStore: {
-  <S extends Readable<any>>(store: S): S,
-  <S extends ExternalReadable>(store: S):
-    S extends ExternalReadable<infer T> ? Readable<T> : never,
-  <T = unknown>(store: ExternalReadable): Readable<T>,
-} = <T>(
-  store: Readable<T> | ExternalReadable<T>,
-): Readable<T> | Readable<T> => {
-  if (Object.hasOwn(store, setKey)) return store as Readable<T>;
-  // Explicitly narrow the type of `store` since TypeScript does not yet
-  // automatically narrow types using `Object.hasOwn`.
-  const ExternalReadable = store as ExternalReadable<T>;
+const finishEvaluation = () => {
+  evaluatingStores.pop();
+  finishPropagation();
+};
+
+/** Whether the consistency checks enabled by `setDebugMode` are performed. */
+let isDebugMode = false;
+
+/** The stores invalidated or re-evaluated since the last consistency check. */
+const touchedStores = new Set<Readable<any>>();
+
+/** The derived stores re-evaluated during the current propagation. */
+const evaluatedStores = new Set<Readable<any>>();
+
+/** The number of calls to `flushStores` currently executing. */
+let flushDepth = 0;
+
+/**
+ * Enable or disable runtime checks that stores are updated consistently, which
+ * throw an `Error` naming the stores involved on failure. Return a function
+ * which restores the previous setting.
+ */
+export const setDebugMode = (isEnabled: boolean) => {
+  const wasEnabled = isDebugMode;
+  isDebugMode = isEnabled;
+  touchedStores.clear();
+  evaluatedStores.clear();
+  return function restore() { isDebugMode = wasEnabled; };
+};
+
+/**
+ * In debug mode, throw if a derived store is about to be re-evaluated either
+ * for the second time in a propagation or while any of its dependencies is yet
+ * to notify, which would let its derive function see a mix of old and new
+ * values.
+ */
+const assertConsistentEvaluation = (
+  store: Readable<any>,
+  dependencies: Array<Readable<any>>,
+) => {
+  const pendingDependency = dependencies.find(isPending);
+  if (pendingDependency !== undefined) {
+    throw new Error(
+      `Consistency check failed: ${describeStore(store)} was re-evaluated `
+        + `while its dependency ${describeStore(pendingDependency)} was pending.`,
+    );
+  }
+  if (evaluatedStores.has(store)) {
+    throw new Error(
+      `Consistency check failed: ${describeStore(store)} was re-evaluated `
+        + 'more than once in a single update.',
+    );
+  }
+  evaluatedStores.add(store);
+  touchedStores.add(store);
+};
 
-  if (wrappedStores.has(ExternalReadable)) {
-    return wrappedStores.get(ExternalReadable) as Readable<T>;
+/**
+ * In debug mode, throw if a store invalidated or re-evaluated since the last
+ * check is still pending or syncing once every update has settled.
+ */
+const assertSettled = () => {
+  evaluatedStores.clear();
+  if (
+    propagationDepth > 0
+    || batchDepth > 0
+    || flushDepth > 0
+    || scheduledStores.size > 0
+    || queuedWrites.length > 0
+  ) {
+    return;
   }
 
-  const wrappedStore = readable<T>(undefined, ((set) => {
-    const unsubscribe = ExternalReadable.subscribe(set);
-    return function onStop() {
-      const isRxJS = typeof unsubscribe !== 'function';
-      (isRxJS ? unsubscribe.unsubscribe : unsubscribe)();
-    };
-  }) as OnStart<T>);
-  wrappedStores.set(ExternalReadable, wrappedStore);
-  return wrappedStore;
+  const stores = [...touchedStores];
+  touchedStores.clear();
+  for (const store of stores) {
+    if (store[isSyncingKey]) {
+      throw new Error(
+        `Consistency check failed: ${describeStore(store)} was left syncing.`,
+      );
+    }
+    if (store[subscribersKey].length > 0 && store[pendingCountKey] !== 0) {
+      throw new Error(
+        `Consistency check failed: ${describeStore(store)} was left with `
+          + `${store[pendingCountKey]} pending dependencies.`,
+      );
+    }
+  }
 };
 
-// /** A function which derives a value from the dependency stores' values and
-//  * optionally calls the passed `set` or `update` functions to change the store.
-//  * */
-//  export type ComplexDeriveValue<S, T> = (
-//   values: S extends Stores ? StoresValues<S> : S,
-//   set: Setter<T>,
-//   update: (fn: Updater<T>) => void,
-// ) => void | (() => void) | unknown;
+/** The number of calls to `batch` currently executing. */
+let batchDepth = 0;
 
-// /** A function which derives a value from the dependency stores' values and
-//  * returns it. */
-// export type SimpleDeriveValue<S, T> =
-//   (values: S extends Stores ? StoresValues<S> : S) => T;
+/** The stores written to during the current batch, mapped to their values from
+ * before the batch. */
+const batchedStores = new Map<Readable<any>, any>();
 
 /**
- * Create a new `Readable` store whose value is derived from the value(s) of one
- * or more other `Readable` stores and whose value is re-evaluated whenever one
- * or more dependency store updates.
- *
- * https://svelte.dev/docs/svelte-store#derived
+ * Set the value of a store during a batch, or of a store whose notification is
+ * scheduled, recording it in `stores`. The first change to each store
+ * invalidates its subscribers immediately, but notification is deferred until
+ * `stores` is flushed.
+ */
+const batchSet = <T>(
+  store: Readable<T>,
+  value: T,
+  stores = batchedStores,
+) => {
+  if (!isChangedValue(store, value)) return;
+
+  if (!stores.has(store)) {
+    stores.set(store, getComparableValue(store));
+    invalidateSubscribers(store);
+  }
+
+  store[valueKey] = value;
+  store[hasValueKey] = true;
+  store[versionKey] += 1;
+};
+
+/**
+ * Notify the subscribers of every store in `stores`, e.g., those written to
+ * during the batch. Stores whose value ended up equal to their recorded old
+ * value still resolve their invalidated subscribers, but without triggering
+ * re-evaluation.
+ */
+const flushStores = (stores: Map<Readable<any>, any>) => {
+  const entries = [...stores];
+  stores.clear();
+
+  const errors = [] as Array<unknown>;
+  flushDepth += 1;
+  for (const [store, oldValue] of entries) {
+    try {
+      store[notifyKey](isChangedValue(store, oldValue), true);
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  flushDepth -= 1;
+  if (isDebugMode && errors.length === 0) assertSettled();
+  if (errors.length > 0) throw errors[0];
+  runPendingEffects();
+};
+
+/**
+ * Call `fn`, deferring notification of changes made to stores during the call
+ * until it returns. Each affected derived store is re-evaluated at most once
+ * and each subscriber is called at most once per store, with the final value.
+ * Batches may be nested, in which case only the outermost batch notifies.
+ */
+export const batch = <R>(fn: () => R): R => {
+  batchDepth += 1;
+  try {
+    return fn();
+  } finally {
+    batchDepth -= 1;
+    if (batchDepth === 0) flushStores(batchedStores);
+  }
+};
+
+/** The scheduler used by stores created without the `scheduler` option. */
+let defaultScheduler: SchedulerOption = 'sync';
+
+const builtInSchedulers: Record<'microtask' | 'animationFrame', Scheduler> = {
+  microtask: flush => queueMicrotask(flush),
+  animationFrame: flush => (
+    typeof requestAnimationFrame === 'function'
+      ? requestAnimationFrame(flush)
+      : setTimeout(flush, 16)
+  ),
+};
+
+/** The stores whose notification is scheduled, grouped by scheduler and mapped
+ * to their values from before they were first set since the previous flush. */
+const scheduledStores = new Map<Scheduler, Map<Readable<any>, any>>();
+
+/**
+ * Set the scheduler used by stores created without the `scheduler` option,
+ * which defaults to `'sync'`. Return a function which restores the previous
+ * scheduler.
+ */
+export const setScheduler = (scheduler: SchedulerOption) => {
+  const previousScheduler = defaultScheduler;
+  defaultScheduler = scheduler;
+  return function restore() { defaultScheduler = previousScheduler; };
+};
+
+/**
+ * Set the value of a store and, if it is the first store set with `scheduler`
+ * since the previous flush, schedule the notification of its subscribers.
+ */
+const scheduleSet = <T>(store: Readable<T>, value: T, scheduler: Scheduler) => {
+  let stores = scheduledStores.get(scheduler);
+  if (stores === undefined) {
+    const newStores = stores = new Map();
+    scheduledStores.set(scheduler, newStores);
+    scheduler(() => {
+      // Do nothing if `flush` was called in the meantime.
+      if (scheduledStores.get(scheduler) !== newStores) return;
+      scheduledStores.delete(scheduler);
+      flushStores(newStores);
+    });
+  }
+  batchSet(store, value, stores);
+};
+
+/**
+ * Immediately notify the subscribers of every store whose notification is
+ * scheduled, including those scheduled during the flush, instead of waiting for
+ * their schedulers.
+ */
+export const flush = () => {
+  const errors = [] as Array<unknown>;
+  // Entries added while iterating are also visited.
+  for (const [scheduler, stores] of scheduledStores) {
+    scheduledStores.delete(scheduler);
+    try {
+      flushStores(stores);
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  if (errors.length > 0) throw errors[0];
+};
+
+/** The keys under which the Observable interop protocol may be implemented. */
+const observableKeys = [Symbol.observable, '@@observable']
+  .filter(key => key !== undefined);
+
+/**
+ * Implement the Observable interop protocol on `store` so that it can be
+ * consumed by compatible libraries, e.g., with RxJS's `from()`. Error states
+ * are not forwarded since, unlike an `Observable`, a store can recover.
+ */
+const addObservableInterop = <T>(store: Readable<T>) => {
+  const observable = () => ({
+    subscribe(observerOrNext: Observer<T> | Subscriber<T>) {
+      const unsubscribe = store.subscribe(
+        typeof observerOrNext === 'function'
+          ? observerOrNext
+          : value => observerOrNext.next?.(value),
+      );
+      return { unsubscribe };
+    },
+    [Symbol.observable]: observable,
+  });
+
+  for (const key of observableKeys) {
+    Object.defineProperty(store, key, { value: observable, configurable: true });
+  }
+};
+
+/**
+ * Create a `KeepAliveHandle` for use with the `keepAlive` store option. Stores
+ * created with the handle which lose their last subscriber while it is not
+ * retained stop immediately.
+ */
+export const createKeepAlive = (): KeepAliveHandle => {
+  let retainCount = 0;
+  const pendingStops = new Set<() => void>();
+
+  return {
+    [deferStopKey](stop) {
+      if (retainCount === 0) {
+        stop();
+        return undefined;
+      }
+      pendingStops.add(stop);
+      return () => { pendingStops.delete(stop); };
+    },
+
+    retain() {
+      retainCount += 1;
+      let isReleased = false;
+
+      return function release() {
+        if (isReleased) return;
+        isReleased = true;
+        retainCount -= 1;
+
+        if (retainCount === 0) {
+          const stops = [...pendingStops];
+          pendingStops.clear();
+          for (const stop of stops) stop();
+        }
+      };
+    },
+  };
+};
+
+/**
+ * Create an internal store.
+ */
+const createStore = <T>(
+  initialValue?: T,
+  onStart: OnStart<T> | DerivedOnStart<T> = noOp,
+  options: StoreOptions<T> = {},
+): Readable<T> => {
+  const subscribers = [] as Subscribers<T>;
+  // Subscribers added while the store was pending, mapped to the value they
+  // were called with, so that they are only called again if it changed.
+  const lateSubscribers = new Map<Subscribers<T>[number], T>();
+  let onStop = noOp;
+  let setterUpdater: DisableableSetterUpdater<T> | undefined;
+  // Set while the store is kept alive without subscribers.
+  let cancelStop: (() => void) | undefined;
+
+  const stop = () => {
+    cancelStop = undefined;
+    store[isActiveKey] = false;
+    hooks.onStop?.(store);
+    onStop();
+    if (setterUpdater !== undefined) setterUpdater.enabled = false;
+  };
+
+  const store = {
+    [valueKey]: initialValue as T,
+    [hasValueKey]: initialValue !== undefined,
+    [equalsKey]: options.equals,
+    [nameKey]: options.name,
+    [schedulerKey]: options.scheduler,
+    [pendingCountKey]: 0,
+    [versionKey]: 0,
+    [isActiveKey]: false,
+    [subscribersKey]: subscribers,
+
+    [notifyKey](isChanged, isInvalidated = isChanged) {
+      hooks.onNotify?.(this, isChanged);
+      // A subscriber may set the store again, in which case the remaining
+      // subscribers are notified of the new value once this notification ends.
+      const value = this[valueKey];
+      const errors = [] as Array<unknown>;
+      propagationDepth += 1;
+      for (const subscriber of subscribers) {
+        try {
+          if (Array.isArray(subscriber)) {
+            if (isInvalidated || this[isDerivedKey]) {
+              subscriber[0](value, isChanged);
+            }
+          } else if (
+            isChanged
+            && (
+              !lateSubscribers.has(subscriber)
+              || isChangedValue(this, lateSubscribers.get(subscriber)!)
+            )
+          ) {
+            subscriber(value);
+          }
+        } catch (error) {
+          // Ensure that one failing subscriber does not prevent the others
+          // from being notified, which would leave derived stores pending.
+          if (hooks.onError) hooks.onError(error, this);
+          else errors.push(error);
+        }
+      }
+      lateSubscribers.clear();
+      finishPropagation();
+      if (errors.length > 0) throw errors[0];
+    },
+
+    [setKey](value) {
+      const isChanged = isChangedValue(this, value);
+      hooks.onSet?.(this, value, isChanged);
+
+      // Defer notifying the subscribers of active stores written to while
+      // another store is notifying or re-evaluating until it completes, so that
+      // each propagation runs to completion before the next one starts.
+      if (
+        propagationDepth > 0
+        && !this[isSyncingKey]
+        && this[subscribersKey].length > 0
+      ) {
+        if (!isChanged) return;
+        if (!queuedWrites.some(([store]) => store === this)) {
+          queuedWrites.push([
+            this,
+            getComparableValue(this),
+            evaluatingStores.at(-1),
+          ]);
+          invalidateSubscribers(this);
+        }
+        this[valueKey] = value;
+        this[hasValueKey] = true;
+        this[versionKey] += 1;
+        return;
+      }
+
+      const scheduler = this[schedulerKey] ?? defaultScheduler;
+      if (scheduler !== 'sync' && !this[isSyncingKey]) {
+        scheduleSet(
+          this,
+          value,
+          typeof scheduler === 'function' ? scheduler : builtInSchedulers[scheduler],
+        );
+        return;
+      }
+
+      if (batchDepth > 0 && !this[isSyncingKey]) {
+        batchSet(this, value);
+        return;
+      }
+
+      if (isChanged && !this[isSyncingKey]) invalidateSubscribers(this);
+
+      if (isChanged) {
+        this[valueKey] = value;
+        this[hasValueKey] = true;
+        this[versionKey] += 1;
+      }
+
+      if (!this[isSyncingKey]) this[notifyKey](isChanged);
+    },
+
+    [updateKey](fn) {
+      this[setKey](fn(this[valueKey]));
+    },
+
+    [Symbol.asyncIterator]() {
+      return iterate(this);
+    },
+
+    subscribe(subscriber) {
+      const owner = activeOwner;
+
+      if (subscribers.length === 0 && cancelStop !== undefined) {
+        cancelStop();
+        cancelStop = undefined;
+      } else if (subscribers.length === 0) {
+        this[isActiveKey] = true;
+        hooks.onStart?.(this);
+        // Subscriptions made by the store itself are not owned by the caller.
+        activeOwner = undefined;
+        try {
+          if (this[isDerivedKey]) {
+            onStop = (onStart as DerivedOnStart<T>)(this as Writable<T>)
+              || noOp;
+          } else {
+            setterUpdater = createDisableableSetterUpdater(this);
+            onStop = (onStart as OnStart<T>)(
+              setterUpdater.set,
+              setterUpdater.update,
+            ) || noOp;
+          }
+        } finally {
+          activeOwner = owner;
+        }
+      }
+
+      subscribers.push(subscriber);
+      if (!Array.isArray(subscriber) && isPending(this)) {
+        lateSubscribers.set(subscriber, getComparableValue(this));
+      }
+      (Array.isArray(subscriber) ? subscriber[0] : subscriber)(this[valueKey]);
+
+      function unsubscribe() {
+        owner?.disposers.delete(unsubscribe);
+        const subscriberIndex = subscribers.indexOf(subscriber);
+        if (subscriberIndex === -1) return;
+        subscribers.splice(subscriberIndex, 1);
+        lateSubscribers.delete(subscriber);
+
+        if (subscribers.length === 0) {
+          const { keepAlive } = options;
+          if (keepAlive === undefined) {
+            stop();
+          } else if (typeof keepAlive === 'number') {
+            const timeout = setTimeout(stop, keepAlive);
+            cancelStop = () => clearTimeout(timeout);
+          } else {
+            cancelStop = keepAlive[deferStopKey](stop);
+          }
+        }
+      }
+
+      owner?.disposers.add(unsubscribe);
+      return unsubscribe;
+    },
+  } as Readable<T>;
+
+  // Allow consumers to pass around a store's `subscribe` method (e.g., to
+  // another function) more liberally without breaking it.
+  store.subscribe = store.subscribe.bind(store);
+  addObservableInterop(store);
+  // The value of a store which does nothing on start is always current.
+  if (onStart === noOp) store[pullKey] = () => store[valueKey];
+
+  return store;
+};
+
+/**
+ * Create a `Writable` store that allows both updating and reading by
+ * subscription.
+ *
+ * https://svelte.dev/docs/svelte-store#writable
+ */
+export const writable = <T>(
+  initialValue: T | undefined,
+  onStart: OnStart<T> | undefined = noOp,
+  options?: StoreOptions<T>,
+) => {
+  const store = createStore(initialValue, onStart, options) as Writable<T>;
+  store.update = store[updateKey].bind(store);
+  store.set = store[setKey].bind(store);
+  return store;
+};
+
+/**
+ * Creates a `Readable` store that allows reading by subscription.
+ *
+ * https://svelte.dev/docs/svelte-store#readable
+ */
+export const readable = createStore;
+
+// Weakly held so that wrapping short-lived external stores, e.g., once per
+// server-side request, does not retain them.
+const wrappedStores = new WeakMap<AnyReadable, Readable<any>>();
+
+/**
+ * Return the `Subscribable` of an object implementing the Observable interop
+ * protocol, or `undefined` for any other object.
+ */
+const getSubscribable = <T>(
+  store: AnyReadable<T>,
+): Subscribable<T> | undefined => {
+  for (const key of observableKeys) {
+    if (!(key in store)) continue;
+    // `'@@observable'` holds the same function as `Symbol.observable`.
+    const observable = (store as InteropObservable<T>)[
+      key as typeof Symbol.observable
+    ];
+    if (typeof observable === 'function') return observable.call(store);
+  }
+  return undefined;
+};
+
+/**
+ * Wrap an external (non-native) store as a `Readable`. Stores implementing
+ * RxJS's `Observable` interface or the Observable interop protocol are
+ * accepted. An observable's error puts the `Readable` into an error state (see
+ * `getError`) and its completion is reported by `isComplete`.
+ */
+export const wrapStore: {
+  <S extends Readable<any>>(store: S): S,
+  <S extends ExternalReadable | InteropObservable>(store: S):
+    S extends AnyReadable<infer T> ? Readable<T> : never,
+  <T = unknown>(store: ExternalReadable | InteropObservable): Readable<T>,
+} = <T>(store: AnyReadable<T>): Readable<T> => {
+  if (Object.hasOwn(store, setKey)) return store as Readable<T>;
+
+  if (wrappedStores.has(store)) {
+    return wrappedStores.get(store) as Readable<T>;
+  }
+
+  const wrappedStore: Readable<T> = readable<T>(undefined, ((set) => {
+    wrappedStore[errorKey] = undefined;
+    wrappedStore[isCompleteKey] = false;
+
+    const subscribable = getSubscribable(store);
+    const unsubscribe = subscribable
+      ? subscribable.subscribe({
+        next: set,
+        error(error) {
+          invalidateSubscribers(wrappedStore);
+          setErrorState(wrappedStore, { error });
+          hooks.onError?.(error, wrappedStore);
+          wrappedStore[notifyKey](true);
+        },
+        complete() { wrappedStore[isCompleteKey] = true; },
+      })
+      : (store as ExternalReadable<T>).subscribe(set);
+
+    return function onStop() {
+      const isRxJS = typeof unsubscribe !== 'function';
+      (isRxJS ? unsubscribe.unsubscribe : unsubscribe)();
+    };
+  }) as OnStart<T>);
+  wrappedStores.set(store, wrappedStore);
+  return wrappedStore;
+};
+
+/**
+ * Return `true` if `stores` is a record of stores rather than a store or an
+ * `Array` of stores.
+ */
+const isStoresRecord = (stores: Stores): stores is StoresRecord => (
+  typeof stores === 'object'
+  && stores !== null
+  && !Array.isArray(stores)
+  && !('subscribe' in stores)
+  && !observableKeys.some(key => key in stores)
+);
+
+// /** A function which derives a value from the dependency stores' values and
+//  * optionally calls the passed `set` or `update` functions to change the store.
+//  * */
+//  export type ComplexDeriveValue<S, T> = (
+//   values: S extends Stores ? StoresValues<S> : S,
+//   set: Setter<T>,
+//   update: (fn: Updater<T>) => void,
+// ) => void | (() => void) | unknown;
+
+// /** A function which derives a value from the dependency stores' values and
+//  * returns it. */
+// export type SimpleDeriveValue<S, T> =
+//   (values: S extends Stores ? StoresValues<S> : S) => T;
+
+/**
+ * Create a new `Readable` store whose value is derived from the value(s) of one
+ * or more other `Readable` stores and whose value is re-evaluated whenever one
+ * or more dependency store updates. The dependency stores may be given as a
+ * single store, an `Array` of stores or a record of stores, and their values
+ * are passed to `deriveValue` in the same shape.
+ *
+ * https://svelte.dev/docs/svelte-store#derived
  */
 export const derived: {
   <S extends Stores, T = unknown>(
     dependencyOrDependencies: S,
     deriveValue: ComplexDeriveValue<S, T>,
     initialValue?: T,
+    options?: StoreOptions<T>,
   ): Readable<T>,
   <S extends Stores, T = unknown>(
     dependencyOrDependencies: S,
     deriveValue: SimpleDeriveValue<S, T>,
     initialValue?: T,
+    options?: StoreOptions<T>,
   ): Readable<T>,
   <Ts, T = unknown>(
     dependencyOrDependencies: Stores,
     deriveValue: ComplexDeriveValue<Ts, T>,
     initialValue?: T,
+    options?: StoreOptions<T>,
   ): Readable<T>,
   <Ts, T = unknown>(
     dependencyOrDependencies: Stores,
     deriveValue: SimpleDeriveValue<Ts, T>,
     initialValue?: T,
+    options?: StoreOptions<T>,
   ): Readable<T>,
 } = <S extends Stores, T>(
   dependencyOrDependencies: S,
   deriveValue: ComplexDeriveValue<S, T> | SimpleDeriveValue<S, T>,
   initialValue?: T,
+  options?: StoreOptions<T>,
 ) => {
-  const hasSingleDependency = !Array.isArray(dependencyOrDependencies);
-  const dependencies: Stores = hasSingleDependency
-    ? [dependencyOrDependencies]
-    : dependencyOrDependencies;
+  const recordKeys = isStoresRecord(dependencyOrDependencies)
+    ? Object.keys(dependencyOrDependencies)
+    : undefined;
+  const hasSingleDependency = recordKeys === undefined
+    && !Array.isArray(dependencyOrDependencies);
+  const dependencies: Array<AnyReadable> = recordKeys !== undefined
+    ? Object.values(dependencyOrDependencies)
+    : hasSingleDependency
+      ? [dependencyOrDependencies]
+      : dependencyOrDependencies as Array<AnyReadable>;
 
   for (const [i, dependency] of dependencies.entries()) {
     if (!dependency) {
-      throw new Error(`Dependency with index ${i} passed to \`derived()\` is falsy.`);
+      const description = recordKeys === undefined
+        ? `with index ${i}`
+        : `with key \`${recordKeys[i]}\``;
+      throw new Error(`Dependency ${description} passed to \`derived()\` is falsy.`);
     }
   }
 
   const wrappedDependencies = dependencies.map(wrapStore);
+  let cleanUp = noOp;
+  // The versions of the dependency stores as of the latest re-evaluation.
+  let dependencyVersions: Array<number> | undefined;
+
+  /**
+   * Re-evaluate the store from its dependency stores' current values. Return
+   * `true` if its error state changed.
+   */
+  const reEvaluate = () => {
+    cleanUp();
+    cleanUp = noOp;
+    dependencyVersions = wrappedDependencies
+      .map(dependency => dependency[versionKey]);
+
+    // Adopt the error state of the first failed dependency, if any, instead of
+    // deriving a value from possibly invalid input.
+    let errorState = wrappedDependencies
+      .find(dependency => dependency[errorKey])?.[errorKey];
+
+    if (errorState === undefined) {
+      if (isDebugMode) assertConsistentEvaluation(store, wrappedDependencies);
+      const startTime = hooks.onRecompute && performance.now();
+      startEvaluation(store);
+      store[isSyncingKey] = true;
+      const storeValues = (
+        wrappedDependencies.map(dependency => dependency[valueKey])
+      ) as StoresValues<S>;
+      const storeValuesArg = hasSingleDependency
+        ? storeValues[0]
+        : recordKeys === undefined
+          ? storeValues
+          : Object.fromEntries(
+            recordKeys.map((key, i) => [key, storeValues[i]]),
+          ) as StoresValues<S>;
+
+      try {
+        if (deriveValue.length === 1) {
+          store[setKey](
+            (deriveValue as SimpleDeriveValue<S, T>)(storeValuesArg),
+          );
+        } else {
+          const setterUpdater = createDisableableSetterUpdater(store);
+          const derivedValue = deriveValue(
+            storeValuesArg,
+            setterUpdater.set,
+            setterUpdater.update,
+          );
+          cleanUp = typeof derivedValue === 'function'
+            ? derivedValue as () => void
+            : noOp;
+        }
+      } catch (error) {
+        errorState = { error };
+        hooks.onError?.(error, store);
+      } finally {
+        store[isSyncingKey] = false;
+        finishEvaluation();
+      }
+      hooks.onRecompute?.(store, performance.now() - startTime!);
+    }
+
+    return setErrorState(store, errorState, options);
+  };
 
   const store = createStore(initialValue, function onStart(store: Readable<T>) {
     const unsubscribers = [] as Array<() => void>;
-    let pendingStoreCount = wrappedDependencies.length;
+    const subscriptions = [] as Array<[Readable<any>, SubscriberInvalidator<any>]>;
+    store[pendingCountKey] = wrappedDependencies.length;
     let isInvalid = false;
+    let isStarting = true;
 
-    let cleanUp = noOp;
     for (const dependency of wrappedDependencies) {
-      let setterUpdater: DisableableSetterUpdater<T>;
-
-      const unsubscribe = dependency.subscribe([
+      const subscriber: SubscriberInvalidator<any> = [
         function onValueChange(_: any, isChanged = true) {
           if (isChanged) isInvalid = true;
-          pendingStoreCount -= 1;
+          store[pendingCountKey] -= 1;
 
-          if (pendingStoreCount === 0) {
-            const oldValue = store[valueKey];
+          if (store[pendingCountKey] === 0 && isInvalid && !isStarting) {
+            store[pendingCountKey] += awaitDependencies(subscriptions);
+          }
+          if (store[pendingCountKey] === 0) {
+            const oldValue = getComparableValue(store);
+            let isErrorChanged = false;
 
             if (isInvalid) {
-              cleanUp();
-              cleanUp = noOp;
               isInvalid = false;
-
-              store[isSyncingKey] = true;
-              const storeValues = (
-                wrappedDependencies.map(dependency => dependency[valueKey])
-              ) as StoresValues<S>;
-              const storeValuesArg = hasSingleDependency
-                ? storeValues[0]
-                : storeValues;
-
-              if (deriveValue.length === 1) {
-                store[setKey](
-                  (deriveValue as SimpleDeriveValue<S, T>)(storeValuesArg),
-                );
-              } else {
-                setterUpdater = createDisableableSetterUpdater(store);
-                const derivedValue = deriveValue(
-                  storeValuesArg,
-                  setterUpdater.set,
-                  setterUpdater.update,
-                );
-                cleanUp = typeof derivedValue === 'function'
-                  ? derivedValue as () => void
-                  : noOp;
-              }
-              store[isSyncingKey] = false;
+              isErrorChanged = reEvaluate();
             }
-            store[notifyKey](areUnequal(store[valueKey], oldValue));
+            store[notifyKey](isErrorChanged || isChangedValue(store, oldValue));
           }
         },
         function invalidate() {
-          if (pendingStoreCount === 0) {
-            for (const subscriber of store[subscribersKey]) {
-              if (Array.isArray(subscriber)) subscriber[1]();
-            }
-          }
-          pendingStoreCount += 1;
+          if (store[pendingCountKey] === 0) invalidateSubscribers(store);
+          store[pendingCountKey] += 1;
         },
-      ]);
+      ];
+      subscriptions.push([dependency, subscriber]);
+      const unsubscribe = dependency.subscribe(subscriber);
 
       unsubscribers.push(() => {
         cleanUp();
+        cleanUp = noOp;
         unsubscribe();
       });
     }
+    isStarting = false;
+
+    // A dependency which is pending, e.g., written to during the current batch,
+    // invalidated its subscribers before this store subscribed, but will still
+    // notify it once it settles. Others may be asked to do the same.
+    for (const [dependency, subscriber] of subscriptions) {
+      if (isPending(dependency) || dependency[awaitKey]?.(subscriber)) {
+        store[pendingCountKey] += 1;
+      }
+    }
 
     return function onStop() {
       for (const unsubscribe of unsubscribers) unsubscribe();
     };
-  });
+  }, options);
+
+  // While inactive, a store with a simple derive function can be read by
+  // pulling its dependency stores' values, and is only re-evaluated if any of
+  // their versions changed since its latest re-evaluation.
+  if (deriveValue.length === 1) {
+    store[pullKey] = () => {
+      for (const dependency of wrappedDependencies) get(dependency);
+      const isStale = dependencyVersions === undefined
+        || wrappedDependencies.some((dependency, i) => (
+          dependency[versionKey] !== dependencyVersions![i]
+        ));
+      if (isStale) reEvaluate();
+      return store[valueKey];
+    };
+  }
 
   store[isDerivedKey] = true;
+  store[dependenciesKey] = wrappedDependencies;
 
   return store;
 };
 
 /**
- * Return a `Readable` of an existing `Readable` or `Writable` store.
- *
- * https://svelte.dev/docs/svelte-store#readonly
+ * Create a new `Readable` store whose value is a record of the values of a
+ * record of stores.
  */
-export const readonly = <T>(store: Readable<T>): Readable<T> => {
-  return {
-    get[valueKey]() { return store[valueKey]; },
-    [subscribersKey]: store[subscribersKey],
-    [notifyKey]: store[notifyKey].bind(store),
-    [setKey]: store[setKey].bind(store),
-    [updateKey]: store[updateKey].bind(store),
-    subscribe: store.subscribe.bind(store),
-  };
-};
+export const combine = <S extends StoresRecord>(
+  stores: S,
+): Readable<StoresValues<S>> => derived<S, StoresValues<S>>(
+  stores,
+  values => values as StoresValues<S>,
+);
 
 /**
- * Get the current value from a store by subscribing and immediately
- * unsubscribing. If `allowStale` is `true`, the current value is read directly
- * from compatible store objects. This is faster but potentially inaccurate.
- *
- * https://svelte.dev/docs/svelte-store#get
+ * Ask each dependency store which may be about to change without having
+ * invalidated its subscriber, e.g., a key store of a `selector`, to call the
+ * subscriber once it settles. Return the number of stores which will.
  */
-export const get: {
-  <T>(store: Readable<T>, allowStale: boolean): T,
-  <T>(store: Readable<T> | ExternalReadable<T>): T,
-} = <T>(
-  store: Readable<T> | ExternalReadable<T>,
-  allowStale = false,
-): T => {
-  if (allowStale && Object.hasOwn(store, setKey)) {
-    return (store as Readable<T>)[valueKey];
+const awaitDependencies = (
+  subscriptions: Iterable<[Readable<any>, SubscriberInvalidator<any>]>,
+) => {
+  let awaitedCount = 0;
+  for (const [dependency, subscriber] of subscriptions) {
+    if (dependency[awaitKey]?.(subscriber)) awaitedCount += 1;
   }
+  return awaitedCount;
+};
+
+/**
+ * Return `true` if `store` has been invalidated and is yet to notify its
+ * subscribers of its new value.
+ */
+const isPending = (store: Readable<any>) => (
+  store[pendingCountKey] > 0
+  || batchedStores.has(store)
+  || [...scheduledStores.values()].some(stores => stores.has(store))
+  || queuedWrites.some(([queuedStore]) => queuedStore === store)
+);
+
+/** A function which registers a store as read during the current evaluation of
+ * a `computed` store. */
+let activeTracker: ((store: Readable<any>) => void) | undefined;
+
+/**
+ * Read the current value of a store and, if called during the evaluation of a
+ * `computed` store, register the store as one of its dependencies. Otherwise,
+ * equivalent to `get`. During evaluation, the error of a store in an error
+ * state is thrown, putting the `computed` store into the same error state.
+ */
+export const track: {
+  <T>(store: Readable<T>): T,
+  <T>(store: ExternalReadable<T> | InteropObservable<T>): T,
+} = <T>(store: AnyReadable<T>): T => {
+  const wrappedStore = wrapStore<T>(store as ExternalReadable);
+  if (activeTracker === undefined) return get(wrappedStore);
+
+  activeTracker(wrappedStore);
+  const errorState = wrappedStore[errorKey];
+  if (errorState) throw errorState.error;
+  return wrappedStore[valueKey];
+};
+
+/**
+ * Create a new `Readable` store whose value is returned by `evaluate` and whose
+ * dependencies are the stores read with `track` during its most recent
+ * evaluation. Stores no longer read are unsubscribed from after each
+ * re-evaluation. An evaluation which reads a store that is yet to be
+ * re-evaluated itself is abandoned, and retried once that store notifies.
+ */
+export const computed = <T>(
+  evaluate: () => T,
+  initialValue?: T,
+  options?: StoreOptions<T>,
+): Readable<T> => {
+  const store = createStore(initialValue, function onStart(store: Readable<T>) {
+    const unsubscribers = new Map<Readable<any>, () => void>();
+    const subscriptions = new Map<Readable<any>, SubscriberInvalidator<any>>();
+    store[pendingCountKey] = 0;
+    let isInvalid = false;
+    let oldValue: T;
+    let oldErrorState: ErrorState | undefined;
+
+    /** Subscribe to a newly-read store. Return `true` if it was asked to call
+     * this store once it settles, in which case its value may be stale. */
+    const subscribeTo = (dependency: Readable<any>) => {
+      let isSubscribing = true;
+
+      const subscriber: SubscriberInvalidator<any> = [
+        function onValueChange(_: any, isChanged = true) {
+          // The value passed on subscription is read by `track` instead.
+          if (isSubscribing) return;
+
+          if (isChanged) isInvalid = true;
+          store[pendingCountKey] -= 1;
+          if (store[pendingCountKey] === 0) settle();
+        },
+        function invalidate() {
+          if (store[pendingCountKey] === 0) invalidateSubscribers(store);
+          store[pendingCountKey] += 1;
+        },
+      ];
+      subscriptions.set(dependency, subscriber);
+      unsubscribers.set(dependency, dependency.subscribe(subscriber));
+      isSubscribing = false;
+
+      // A newly-read store which is yet to notify its own subscribers will
+      // notify this store too, so wait for it before notifying downstream.
+      if (isPending(dependency)) {
+        store[pendingCountKey] += 1;
+        return false;
+      }
+      const isAwaited = dependency[awaitKey]?.(subscriber) ?? false;
+      if (isAwaited) store[pendingCountKey] += 1;
+      return isAwaited;
+    };
+
+    const reEvaluate = () => {
+      const trackedStores = new Set<Readable<any>>();
+      const parentTracker = activeTracker;
+      // Thrown by `track` to abandon the evaluation when it reads a store which
+      // is yet to be re-evaluated, rather than let it see a stale value.
+      const abandonment = {};
+      let isAbandoned = false;
+      activeTracker = (dependency) => {
+        assertNotEvaluating(dependency);
+        trackedStores.add(dependency);
+        const isAwaited = !unsubscribers.has(dependency)
+          && subscribeTo(dependency);
+        if (isAwaited || dependency[pendingCountKey] > 0) {
+          isAbandoned = true;
+          throw abandonment;
+        }
+      };
+
+      const startTime = hooks.onRecompute && performance.now();
+      let errorState: ErrorState | undefined;
+      startEvaluation(store);
+      store[isSyncingKey] = true;
+      try {
+        const value = evaluate();
+        if (!isAbandoned) store[setKey](value);
+      } catch (error) {
+        // Adopt the error state of the dependency which `track` threw for, if
+        // that is where the error came from.
+        errorState = [...trackedStores]
+          .find(dependency => dependency[errorKey]?.error === error)?.[errorKey];
+        if (errorState === undefined && !isAbandoned) {
+          errorState = { error };
+          hooks.onError?.(error, store);
+        }
+      } finally {
+        store[isSyncingKey] = false;
+        activeTracker = parentTracker;
+        finishEvaluation();
+      }
+
+      // Evaluate again once the pending store notifies, keeping the current
+      // dependencies until then.
+      if (isAbandoned) {
+        isInvalid = true;
+        return;
+      }
+
+      hooks.onRecompute?.(store, performance.now() - startTime!);
+      setErrorState(store, errorState, options);
+
+      for (const [dependency, unsubscribe] of unsubscribers) {
+        if (!trackedStores.has(dependency)) {
+          unsubscribers.delete(dependency);
+          subscriptions.delete(dependency);
+          unsubscribe();
+        }
+      }
+      store[dependenciesKey] = [...unsubscribers.keys()];
+    };
+
+    const settle = () => {
+      if (isInvalid) {
+        store[pendingCountKey] += awaitDependencies(subscriptions);
+        if (store[pendingCountKey] > 0) return;
+        isInvalid = false;
+        reEvaluate();
+      }
+
+      // Re-evaluation may have read a store which is yet to notify.
+      if (store[pendingCountKey] === 0) {
+        store[notifyKey](
+          store[errorKey] !== oldErrorState || isChangedValue(store, oldValue),
+        );
+        oldValue = getComparableValue(store);
+        oldErrorState = store[errorKey];
+      }
+    };
+
+    reEvaluate();
+    oldValue = getComparableValue(store);
+    oldErrorState = store[errorKey];
+
+    return function onStop() {
+      for (const unsubscribe of unsubscribers.values()) unsubscribe();
+      unsubscribers.clear();
+      subscriptions.clear();
+      store[dependenciesKey] = [];
+    };
+  }, options);
+
+  store[isDerivedKey] = true;
+  store[dependenciesKey] = [];
+
+  return store;
+};
+
+/**
+ * Create a new `Readable` store whose state reflects a promise returned by
+ * `deriveValue`, which is called whenever one or more dependency store updates.
+ * The previous call's `signal` is aborted on re-evaluation and when the store
+ * loses its last subscriber, and its result is discarded, so a slow promise can
+ * never overwrite the result of a newer one.
+ */
+export const asyncDerived = <S extends Stores, T = unknown>(
+  dependencyOrDependencies: S,
+  deriveValue: AsyncDeriveValue<S, T>,
+  initialValue?: T,
+  options?: StoreOptions<AsyncState<T>>,
+): Readable<AsyncState<T>> => derived<S, AsyncState<T>>(
+  dependencyOrDependencies,
+  (values, set, update) => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    update(({ value }) => ({ status: 'pending', value, error: undefined }));
+
+    // Also capture errors thrown synchronously by `deriveValue`.
+    new Promise<T>(resolve => resolve(deriveValue(values, { signal }))).then(
+      (value) => {
+        if (!signal.aborted) set({ status: 'fulfilled', value, error: undefined });
+      },
+      (error) => {
+        if (!signal.aborted) {
+          update(({ value }) => ({ status: 'rejected', value, error }));
+        }
+      },
+    );
+
+    return function cleanUp() { controller.abort(); };
+  },
+  { status: 'pending', value: initialValue, error: undefined },
+  options,
+);
+
+const defaultClock: Clock = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle),
+};
+
+/**
+ * Create a new `Readable` store whose value follows the value of `store` once
+ * it has stopped changing for `ms` milliseconds. The store takes the current
+ * value of `store` immediately when it gains its first subscriber, and clears
+ * its pending timer when it loses its last subscriber.
+ */
+export const debounce = <T>(
+  store: AnyReadable<T>,
+  ms: number,
+  options: TimingOptions<T> = {},
+): Readable<T> => {
+  const { clock = defaultClock, ...storeOptions } = options;
+  const source = wrapStore(store);
+
+  return createStore<T>(undefined, (set: Setter<T>) => {
+    let timeout: unknown;
+    let isSubscribing = true;
+
+    const unsubscribe = source.subscribe((value) => {
+      if (isSubscribing) {
+        set(value);
+        return;
+      }
+      clock.clearTimeout(timeout);
+      timeout = clock.setTimeout(() => set(value), ms);
+    });
+    isSubscribing = false;
+
+    return function onStop() {
+      clock.clearTimeout(timeout);
+      unsubscribe();
+    };
+  }, storeOptions);
+};
+
+/**
+ * Create a new `Readable` store whose value follows the value of `store` but
+ * changes at most once every `ms` milliseconds. By default the first change in
+ * a period is applied immediately and the latest change during the period is
+ * applied when it ends. The store takes the current value of `store`
+ * immediately when it gains its first subscriber, and clears its pending timer
+ * when it loses its last subscriber.
+ */
+export const throttle = <T>(
+  store: AnyReadable<T>,
+  ms: number,
+  options: ThrottleOptions<T> = {},
+): Readable<T> => {
+  const {
+    clock = defaultClock,
+    leading = true,
+    trailing = true,
+    ...storeOptions
+  } = options;
+  const source = wrapStore(store);
+
+  return createStore<T>(undefined, (set: Setter<T>) => {
+    let timeout: unknown;
+    let isThrottling = false;
+    let hasTrailingValue = false;
+    let trailingValue: T;
+    let isSubscribing = true;
+
+    const startPeriod = () => {
+      isThrottling = true;
+      timeout = clock.setTimeout(() => {
+        isThrottling = false;
+        if (hasTrailingValue) {
+          hasTrailingValue = false;
+          set(trailingValue);
+          startPeriod();
+        }
+      }, ms);
+    };
+
+    const unsubscribe = source.subscribe((value) => {
+      if (isSubscribing) {
+        set(value);
+        return;
+      }
+      if (!isThrottling && leading) {
+        set(value);
+      } else if (trailing) {
+        hasTrailingValue = true;
+        trailingValue = value;
+      }
+      if (!isThrottling) startPeriod();
+    });
+    isSubscribing = false;
+
+    return function onStop() {
+      clock.clearTimeout(timeout);
+      unsubscribe();
+    };
+  }, storeOptions);
+};
+
+/**
+ * Create a new `Readable` store whose value is the value of `store` as of the
+ * most recent time `notifier` changed, e.g., a store updated on an interval.
+ * The store takes the current value of `store` immediately when it gains its
+ * first subscriber.
+ */
+export const sample = <T>(
+  store: AnyReadable<T>,
+  notifier: AnyReadable<unknown>,
+  options?: StoreOptions<T>,
+): Readable<T> => {
+  const source = wrapStore(store);
+  const wrappedNotifier = wrapStore(notifier);
+
+  return createStore<T>(undefined, (set: Setter<T>) => {
+    let latestValue: T;
+    let isSubscribing = true;
+
+    const unsubscribeSource = source.subscribe((value) => {
+      latestValue = value;
+      if (isSubscribing) set(value);
+    });
+    const unsubscribeNotifier = wrappedNotifier.subscribe(() => {
+      if (!isSubscribing) set(latestValue);
+    });
+    isSubscribing = false;
+
+    return function onStop() {
+      unsubscribeSource();
+      unsubscribeNotifier();
+    };
+  }, options);
+};
+
+/**
+ * Call every function in `owner`, disposing its nested roots and effects before
+ * its own subscriptions.
+ */
+const disposeOwner = (owner: Owner) => {
+  for (const disposers of [owner.children, owner.disposers]) {
+    const dispose = [...disposers].reverse();
+    disposers.clear();
+    for (const fn of dispose) fn();
+  }
+};
+
+/**
+ * Call `fn` with a function which disposes every subscription, effect and root
+ * created during the call, and return its result. Roots may be nested, in
+ * which case the inner root is also disposed when the outer one is, before the
+ * outer root's own subscriptions.
+ */
+export const createRoot = <R>(fn: (dispose: () => void) => R): R => {
+  const owner: Owner = { children: new Set(), disposers: new Set() };
+  const parentOwner = activeOwner;
+
+  const dispose = () => {
+    parentOwner?.children.delete(dispose);
+    disposeOwner(owner);
+  };
+  parentOwner?.children.add(dispose);
+
+  activeOwner = owner;
+  try {
+    return fn(dispose);
+  } catch (error) {
+    // The caller cannot dispose of what `fn` created before it threw.
+    dispose();
+    throw error;
+  } finally {
+    activeOwner = parentOwner;
+  }
+};
+
+/**
+ * Run `fn` with the value(s) of one or more stores now and whenever they change.
+ * Unlike a subscriber, `fn` runs only once every store involved in an update
+ * has settled, and at most once per update. Subscriptions and effects created
+ * by `fn` are disposed before it runs again. Return a function which disposes
+ * the effect, calling the function returned by `fn`, if any.
+ */
+export const effect = <S extends Stores>(
+  dependencyOrDependencies: S,
+  fn: EffectCallback<S>,
+): (() => void) => {
+  const owner: Owner = { children: new Set(), disposers: new Set() };
+  const parentOwner = activeOwner;
+  const valuesStore = derived<S, StoresValues<S>>(
+    dependencyOrDependencies,
+    values => values,
+  );
+  let cleanUp = noOp;
+  let isDisposed = false;
+  let hasRun = false;
+
+  const run = () => {
+    if (isDisposed) return;
+    disposeOwner(owner);
+    cleanUp();
+
+    const previousOwner = activeOwner;
+    activeOwner = owner;
+    try {
+      const result = fn(valuesStore[valueKey]);
+      cleanUp = typeof result === 'function' ? result : noOp;
+      hasRun = true;
+    } finally {
+      activeOwner = previousOwner;
+    }
+  };
+
+  // The initial run is made once subscribed, so that the subscription can be
+  // undone if it throws.
+  let isSubscribing = true;
+  activeOwner = undefined;
+  let unsubscribe: () => void;
+  try {
+    unsubscribe = valuesStore.subscribe(() => {
+      pendingEffects.add(run);
+      if (!isSubscribing) runPendingEffects();
+    });
+  } finally {
+    isSubscribing = false;
+    activeOwner = parentOwner;
+  }
+
+  const dispose = () => {
+    if (isDisposed) return;
+    isDisposed = true;
+    pendingEffects.delete(run);
+    parentOwner?.children.delete(dispose);
+    unsubscribe();
+    disposeOwner(owner);
+    cleanUp();
+  };
+  parentOwner?.children.add(dispose);
+
+  try {
+    runPendingEffects();
+  } catch (error) {
+    // Another pending effect may have thrown instead, after this one ran.
+    if (!hasRun) dispose();
+    throw error;
+  }
+
+  return dispose;
+};
+
+/**
+ * Return a copy of `target` with the value at `path` replaced by `value`,
+ * copying only the `Object`s and `Array`s along the path. Return `target` itself
+ * if the value is already identical.
+ */
+const setIn = (
+  target: any,
+  path: ReadonlyArray<PropertyKey>,
+  value: unknown,
+): any => {
+  if (path.length === 0) return value;
+
+  const [key, ...restOfPath] = path;
+  const child = setIn(target?.[key], restOfPath, value);
+  if (isSameValue(target?.[key], child)) return target;
+
+  if (Array.isArray(target)) {
+    const copy = [...target];
+    copy[key as number] = child;
+    return copy;
+  }
+  return { ...target, [key]: child };
+};
+
+/**
+ * Create a `Writable` view of part of the value of a parent `Writable` store,
+ * selected either by a path of keys or by a `Lens`. Setting the view's value
+ * immutably updates the parent's value. The view only notifies its subscribers
+ * when the selected part is no longer identical, unless the `equals` option is
+ * given.
+ */
+export const focus: {
+  <P, const K extends ReadonlyArray<PropertyKey>>(
+    store: Writable<P>,
+    path: K,
+    options?: StoreOptions<PathValue<P, K>>,
+  ): Writable<PathValue<P, K>>,
+  <P, C>(
+    store: Writable<P>,
+    lens: Lens<P, C>,
+    options?: StoreOptions<C>,
+  ): Writable<C>,
+} = <P, C>(
+  store: Writable<P>,
+  pathOrLens: ReadonlyArray<PropertyKey> | Lens<P, C>,
+  options: StoreOptions<C> = {},
+): Writable<C> => {
+  const lens: Lens<P, C> = Array.isArray(pathOrLens)
+    ? {
+      get: parent => pathOrLens.reduce((value: any, key) => value?.[key], parent),
+      set: (parent, value) => setIn(parent, pathOrLens, value),
+    }
+    : pathOrLens as Lens<P, C>;
+
+  // Wrapped so that a `get` taking other than one parameter is not mistaken for
+  // a derive function which sets its value itself.
+  const focusedStore = derived(store, parent => lens.get(parent), undefined, {
+    equals: isSameValue,
+    ...options,
+  }) as Writable<C>;
+  focusedStore.update = (fn) => {
+    store.update(parent => lens.set(parent, fn(lens.get(parent))));
+  };
+  focusedStore.set = value => focusedStore.update(() => value);
+
+  return focusedStore;
+};
+
+/**
+ * Create a new `Writable` store whose value is derived from the value(s) of one
+ * or more other `Writable` stores, like `derived`, and which can also be set.
+ * Setting the store passes the new value to `reverse`, which returns new values
+ * for the dependency stores in the same shape as it receives their current
+ * values. The dependency stores are then set in a single batch. Those whose new
+ * value is identical to their current value are not set.
+ */
+export const writableDerived: {
+  <S extends Writable<any>, T>(
+    dependency: S,
+    deriveValue: SimpleDeriveValue<S, T>,
+    reverse: ReverseDeriveValue<StoresValues<S>, T>,
+    options?: StoreOptions<T>,
+  ): Writable<T>,
+  <S extends WritableStoresTuple, T>(
+    dependencies: S,
+    deriveValue: SimpleDeriveValue<S, T>,
+    reverse: ReverseDeriveValue<WritableStoresTupleValues<S>, T>,
+    options?: StoreOptions<T>,
+  ): Writable<T>,
+} = <S extends Writable<any> | WritableStoresTuple, T>(
+  dependencyOrDependencies: S,
+  deriveValue: SimpleDeriveValue<S, T>,
+  reverse: ReverseDeriveValue<any, T>,
+  options?: StoreOptions<T>,
+): Writable<T> => {
+  const hasSingleDependency = !Array.isArray(dependencyOrDependencies);
+  const dependencies: Array<Writable<any>> = hasSingleDependency
+    ? [dependencyOrDependencies]
+    : dependencyOrDependencies;
+
+  const store = derived(
+    dependencyOrDependencies,
+    deriveValue,
+    undefined,
+    options,
+  ) as Writable<T>;
+
+  store.set = (value) => {
+    const oldValues = dependencies.map(dependency => get(dependency));
+    const newValues = reverse(
+      value,
+      hasSingleDependency ? oldValues[0] : oldValues,
+    );
+
+    batch(() => {
+      for (const [i, dependency] of dependencies.entries()) {
+        const newValue = hasSingleDependency ? newValues : newValues[i];
+        if (!isSameValue(newValue, oldValues[i])) dependency.set(newValue);
+      }
+    });
+  };
+  store.update = fn => store.set(fn(get(store)));
+
+  return store;
+};
+
+/**
+ * Wrap one or more `Writable` stores in a `HistoryStore` which records every
+ * change to their values, whether made through it or directly. Changes made to
+ * several of the stores in one batch are recorded as a single entry, and are
+ * undone and redone together in one batch.
+ */
+export const withHistory: {
+  <T>(
+    store: Writable<T>,
+    options?: HistoryOptions<T>,
+  ): HistoryStore<T>,
+  <S extends WritableStoresTuple>(
+    stores: S,
+    options?: HistoryOptions<WritableStoresTupleValues<S>>,
+  ): HistoryStore<WritableStoresTupleValues<S>>,
+} = <T>(
+  storeOrStores: Writable<T> | WritableStoresTuple,
+  options: HistoryOptions<T> = {},
+): HistoryStore<T> => {
+  const { limit = Infinity, coalesceMs = 0, equals } = options;
+  const undoStack = [] as Array<T>;
+  const redoStack = [] as Array<T>;
+  const canUndo = writable(false);
+  const canRedo = writable(false);
+  // The value being restored by `undo` or `redo`, until the store takes it,
+  // which may be later if notification is deferred, e.g., during a batch.
+  let restoringValue: { value: T } | undefined;
+  let isCheckpointed = true;
+  let lastChangeTime = -Infinity;
+
+  const store = writableDerived(
+    storeOrStores as Writable<T>,
+    (value: T) => value,
+    (value: T) => value,
+    { equals },
+  ) as HistoryStore<T>;
+
+  // The value of several stores is a new `Array` on every change.
+  const isSameEntry = Array.isArray(storeOrStores) ? shallowEqual : isSameValue;
+
+  const updateCanUndoRedo = () => batch(() => {
+    canUndo.set(undoStack.length > 0);
+    canRedo.set(redoStack.length > 0);
+  });
+
+  // Keep the store active so that changes made directly to the wrapped stores
+  // are recorded.
+  let currentValue: T;
+  let isSubscribing = true;
+  store.subscribe((value) => {
+    const oldValue = currentValue;
+    currentValue = value;
+    if (restoringValue && isSameEntry(value, restoringValue.value)) {
+      restoringValue = undefined;
+      return;
+    }
+    if (isSubscribing || isSameValue(oldValue, value)) return;
+
+    const now = Date.now();
+    const isCoalesced = !isCheckpointed && now - lastChangeTime < coalesceMs;
+    lastChangeTime = now;
+    isCheckpointed = false;
+
+    if (!isCoalesced) {
+      undoStack.push(oldValue);
+      if (undoStack.length > limit) undoStack.shift();
+    }
+    redoStack.length = 0;
+    updateCanUndoRedo();
+  });
+  isSubscribing = false;
+
+  /** Move the most recent entry from one stack to the other and restore it. */
+  const restore = (from: Array<T>, to: Array<T>) => {
+    if (from.length === 0) return;
+    const value = from.pop() as T;
+    to.push(currentValue);
+
+    if (!isSameEntry(currentValue, value)) restoringValue = { value };
+    try {
+      store.set(value);
+    } finally {
+      isCheckpointed = true;
+      updateCanUndoRedo();
+    }
+  };
+
+  return Object.assign(store, {
+    undo: () => restore(undoStack, redoStack),
+    redo: () => restore(redoStack, undoStack),
+    clear() {
+      undoStack.length = 0;
+      redoStack.length = 0;
+      isCheckpointed = true;
+      updateCanUndoRedo();
+    },
+    checkpoint() {
+      isCheckpointed = true;
+    },
+    canUndo: readonly(canUndo),
+    canRedo: readonly(canRedo),
+  });
+};
+
+/**
+ * Create a function which returns a `Readable` of whether `getKey` returns `key`
+ * for the value of `store`. When the value of `store` changes, only the stores
+ * of the previous and the new key are updated, however many stores there are.
+ * Since the new key is only known once `store` settles, a derived store about
+ * to re-evaluate while `store` is pending waits for it to settle before reading
+ * any key's store, so that derived stores remain consistent. Each key's store
+ * is dropped once it loses its last subscriber.
+ */
+export const selector = <T, K = T>(
+  store: AnyReadable<T>,
+  getKey: (value: T) => K = value => value as unknown as K,
+): ((key: K) => Readable<boolean>) => {
+  const source = wrapStore(store);
+  // The active stores of each key. There is usually only one, but a store
+  // returned before the previous one stopped may be started again.
+  const keyStores = new Map<K, Set<Readable<boolean>>>();
+  // The stores of the selected key, invalidated along with `store`.
+  const invalidatedStores = new Set<Readable<boolean>>();
+  // The subscribers waiting for `store` to settle, with the stores they read.
+  const awaitingSubscriptions = [] as Array<
+    [Readable<boolean>, SubscriberInvalidator<boolean>]
+  >;
+  let selectedKey: K;
+  let isSourcePending = false;
+  let activeStoreCount = 0;
+  let unsubscribe = noOp;
+
+  /** Settle the value of a key's store, notifying its subscribers if needed. */
+  const settle = (
+    keyStore: Readable<boolean>,
+    key: K,
+    isInvalidated: boolean,
+  ) => {
+    const isSelected = isSameValue(key, selectedKey);
+    const isChanged = keyStore[valueKey] !== isSelected;
+    if (!isChanged && !isInvalidated) return;
+
+    if (!isInvalidated) invalidateSubscribers(keyStore);
+    if (isChanged) {
+      keyStore[valueKey] = isSelected;
+      keyStore[hasValueKey] = true;
+      keyStore[versionKey] += 1;
+    }
+    keyStore[notifyKey](isChanged, true);
+  };
+
+  const start = () => {
+    let isSubscribing = true;
+    unsubscribe = source.subscribe([
+      function onValueChange(value: T, isChanged = true) {
+        const oldKey = selectedKey;
+        if (isChanged) selectedKey = getKey(value);
+        if (isSubscribing) return;
+        isSourcePending = false;
+
+        const stores = [...invalidatedStores];
+        invalidatedStores.clear();
+        const subscriptions = awaitingSubscriptions.splice(0);
+        const errors = [] as Array<unknown>;
+
+        // Ensure that one failing subscriber does not prevent the others from
+        // being notified, which would leave derived stores pending.
+        const attempt = (fn: () => void) => {
+          try {
+            fn();
+          } catch (error) {
+            errors.push(error);
+          }
+        };
+
+        for (const keyStore of stores) {
+          attempt(() => settle(keyStore, oldKey, true));
+        }
+        for (const key of [oldKey, selectedKey]) {
+          for (const keyStore of keyStores.get(key) ?? []) {
+            if (!stores.includes(keyStore)) {
+              attempt(() => settle(keyStore, key, false));
+            }
+          }
+        }
+
+        // Any change was notified by `settle`, which the waiting subscribers
+        // received too.
+        for (const [keyStore, subscriber] of subscriptions) {
+          if (keyStore[subscribersKey].includes(subscriber)) {
+            attempt(() => subscriber[0](keyStore[valueKey], false));
+          }
+        }
+        if (errors.length > 0) throw errors[0];
+      },
+      function invalidate() {
+        if (isSourcePending) return;
+        isSourcePending = true;
+        for (const keyStore of keyStores.get(selectedKey) ?? []) {
+          invalidatedStores.add(keyStore);
+          invalidateSubscribers(keyStore);
+        }
+      },
+    ]);
+    isSubscribing = false;
+  };
+
+  return (key) => {
+    const existingStore = keyStores.get(key)?.values().next().value;
+    if (existingStore !== undefined) return existingStore;
+
+    const keyStore = createStore(false, (set: Setter<boolean>) => {
+      if (activeStoreCount === 0) start();
+      activeStoreCount += 1;
+      if (!keyStores.has(key)) keyStores.set(key, new Set());
+      keyStores.get(key)!.add(keyStore);
+      set(isSameValue(selectedKey, key));
+
+      return function onStop() {
+        const stores = keyStores.get(key)!;
+        stores.delete(keyStore);
+        if (stores.size === 0) keyStores.delete(key);
+        invalidatedStores.delete(keyStore);
+
+        activeStoreCount -= 1;
+        if (activeStoreCount === 0) {
+          unsubscribe();
+          isSourcePending = false;
+          awaitingSubscriptions.length = 0;
+        }
+      };
+    });
+
+    keyStore[awaitKey] = (subscriber) => {
+      if (!isSourcePending) return false;
+      // The subscribers of the selected key's stores are already waiting for
+      // their notification.
+      if (!invalidatedStores.has(keyStore)) {
+        awaitingSubscriptions.push([keyStore, subscriber]);
+      }
+      return true;
+    };
+
+    return keyStore;
+  };
+};
+
+/**
+ * Create a `CollectionStore` of `collection`, which is mutated in place by the
+ * caller before calling `commit` with the keys of the changed entries. Each
+ * entry's `Readable` is created on first request and kept for the lifetime of
+ * the collection store.
+ */
+const createCollectionStore = <C extends object, K, V>(
+  collection: C,
+  readEntry: (key: K) => V,
+  options: CollectionStoreOptions<C>,
+) => {
+  // Ignore `equals` if passed anyway, e.g., from JavaScript.
+  const { equals, ...storeOptions } = options as StoreOptions<C>;
+  const store = createStore(
+    collection,
+    noOp,
+    storeOptions,
+  ) as CollectionStore<C, K, V>;
+  const entryStores = new Map<K, Readable<V>>();
+  let pendingChangedKeys = [] as Array<K>;
+  let changedKeys = [] as Array<K>;
+
+  const notify = store[notifyKey];
+  store[notifyKey] = function (isChanged, isInvalidated) {
+    if (isChanged) {
+      changedKeys = pendingChangedKeys;
+      pendingChangedKeys = [];
+    }
+    notify.call(this, isChanged, isInvalidated);
+  };
+  Object.defineProperty(store, 'changedKeys', { get: () => changedKeys });
+
+  store.key = (key) => {
+    if (!entryStores.has(key)) {
+      entryStores.set(key, createStore(readEntry(key), noOp, {
+        name: options.name && `${options.name}[${String(key)}]`,
+        equals: isSameValue,
+      }));
+    }
+    return entryStores.get(key) as Readable<V>;
+  };
+
+  // Update the collection store and the changed entries' stores together so
+  // that stores derived from more than one of them re-evaluate only once.
+  const commit = (keys: Iterable<K>) => batch(() => {
+    for (const key of keys) {
+      pendingChangedKeys.push(key);
+      entryStores.get(key)?.[setKey](readEntry(key));
+    }
+    store[setKey](collection);
+  });
+
+  return { store, commit };
+};
+
+/**
+ * Create a `MapStore` containing `entries`.
+ */
+export const mapStore = <K, V>(
+  entries?: Iterable<readonly [K, V]> | null,
+  options: CollectionStoreOptions<ReadonlyMap<K, V>> = {},
+): MapStore<K, V> => {
+  const map = new Map(entries);
+  const { store, commit } = createCollectionStore<
+    ReadonlyMap<K, V>, K, V | undefined
+  >(map, key => map.get(key), options);
+
+  return Object.assign(store, {
+    setKey(key: K, value: V) {
+      if (map.has(key) && isSameValue(map.get(key), value)) return;
+      map.set(key, value);
+      commit([key]);
+    },
+    delete(key: K) {
+      const isDeleted = map.delete(key);
+      if (isDeleted) commit([key]);
+      return isDeleted;
+    },
+    clear() {
+      const keys = [...map.keys()];
+      map.clear();
+      commit(keys);
+    },
+  });
+};
+
+/**
+ * Create a `SetStore` containing `values`.
+ */
+export const setStore = <T>(
+  values?: Iterable<T> | null,
+  options: CollectionStoreOptions<ReadonlySet<T>> = {},
+): SetStore<T> => {
+  const set = new Set(values);
+  const { store, commit } = createCollectionStore<
+    ReadonlySet<T>, T, boolean
+  >(set, value => set.has(value), options);
+
+  return Object.assign(store, {
+    add(value: T) {
+      if (set.has(value)) return;
+      set.add(value);
+      commit([value]);
+    },
+    delete(value: T) {
+      const isDeleted = set.delete(value);
+      if (isDeleted) commit([value]);
+      return isDeleted;
+    },
+    clear() {
+      const values = [...set];
+      set.clear();
+      commit(values);
+    },
+  });
+};
+
+/**
+ * Create an `ArrayStore` containing `items`.
+ */
+export const arrayStore = <T>(
+  items?: Iterable<T> | null,
+  options: CollectionStoreOptions<ReadonlyArray<T>> = {},
+): ArrayStore<T> => {
+  const array = [...items ?? []];
+  const { store, commit } = createCollectionStore<
+    ReadonlyArray<T>, number, T | undefined
+  >(array, index => array[index], options);
+
+  /** Return the indices from `start` up to, but not including, `end`. */
+  const range = (start: number, end: number) => (
+    Array.from({ length: Math.max(end - start, 0) }, (_, i) => start + i)
+  );
+
+  return Object.assign(store, {
+    setIndex(index: number, value: T) {
+      if (index in array && isSameValue(array[index], value)) return;
+      array[index] = value;
+      commit([index]);
+    },
+    push(...newItems: Array<T>) {
+      const oldLength = array.length;
+      array.push(...newItems);
+      if (newItems.length > 0) commit(range(oldLength, array.length));
+      return array.length;
+    },
+    pop() {
+      if (array.length === 0) return undefined;
+      const item = array.pop();
+      commit([array.length]);
+      return item;
+    },
+    splice(start: number, deleteCount = Infinity, ...newItems: Array<T>) {
+      const oldLength = array.length;
+      const deletedItems = array.splice(start, deleteCount, ...newItems);
+      // Resolve a relative or out-of-range `start` as `Array.prototype.splice`
+      // does.
+      const startIndex = start < 0
+        ? Math.max(oldLength + start, 0)
+        : Math.min(start, oldLength);
+      const end = deletedItems.length === newItems.length
+        ? startIndex + newItems.length
+        : Math.max(oldLength, array.length);
+      if (deletedItems.length > 0 || newItems.length > 0) {
+        commit(range(startIndex, end));
+      }
+      return deletedItems;
+    },
+  });
+};
+
+/**
+ * Return a `Readable` of an existing `Readable` or `Writable` store.
+ *
+ * https://svelte.dev/docs/svelte-store#readonly
+ */
+export const readonly = <T>(store: Readable<T>): Readable<T> => {
+  const readonlyStore = {
+    get[valueKey]() { return store[valueKey]; },
+    get[hasValueKey]() { return store[hasValueKey]; },
+    get[nameKey]() { return store[nameKey]; },
+    get[dependenciesKey]() { return store[dependenciesKey]; },
+    get[errorKey]() { return store[errorKey]; },
+    get[isCompleteKey]() { return store[isCompleteKey]; },
+    get[isDerivedKey]() { return store[isDerivedKey]; },
+    get[isSyncingKey]() { return store[isSyncingKey]; },
+    get[pendingCountKey]() { return store[pendingCountKey]; },
+    get[versionKey]() { return store[versionKey]; },
+    get[isActiveKey]() { return store[isActiveKey]; },
+    get[pullKey]() { return store[pullKey]; },
+    get[awaitKey]() { return store[awaitKey]; },
+    [subscribersKey]: store[subscribersKey],
+    [notifyKey]: store[notifyKey].bind(store),
+    [setKey]: store[setKey].bind(store),
+    [updateKey]: store[updateKey].bind(store),
+    subscribe: store.subscribe.bind(store),
+    [Symbol.asyncIterator]: () => iterate(store),
+  } as Readable<T>;
+  addObservableInterop(readonlyStore);
+  return readonlyStore;
+};
+
+/**
+ * Get the current value from a store by subscribing and immediately
+ * unsubscribing. If `allowStale` is `true`, the current value is read directly
+ * from compatible store objects. This is faster but potentially inaccurate.
+ *
+ * https://svelte.dev/docs/svelte-store#get
+ */
+export const get: {
+  <T>(store: Readable<T>, allowStale: boolean): T,
+  <T>(store: AnyReadable<T>): T,
+} = <T>(
+  store: AnyReadable<T>,
+  allowStale = false,
+): T => {
+  if (allowStale && Object.hasOwn(store, setKey)) {
+    return (store as Readable<T>)[valueKey];
+  }
+
+  // Settle stores downstream of any store whose notification is scheduled,
+  // unless called during propagation, which flushing would re-enter.
+  if (scheduledStores.size > 0 && propagationDepth === 0) flush();
+
+  // Avoid starting an inactive store, and any inactive stores upstream of it,
+  // where possible.
+  const pull = (store as Readable<T>)[pullKey];
+  if (pull !== undefined && !(store as Readable<T>)[isActiveKey]) return pull();
+
+  // Objects which only implement the Observable interop protocol have no
+  // `subscribe` method of their own.
+  const subscribableStore = 'subscribe' in store
+    ? store as ExternalReadable<T>
+    : wrapStore<T>(store);
 
   let freshValue: T;
-  const unsubscribe = store.subscribe(value => freshValue = value);
+  const unsubscribe = subscribableStore.subscribe(value => freshValue = value);
   const isRxJS = typeof unsubscribe !== 'function';
   (isRxJS ? unsubscribe.unsubscribe : unsubscribe)();
 
   // @ts-ignore
   return freshValue;
 };
+
+/**
+ * Return the error of a derived store in an error state, or `undefined` if the
+ * store's value was derived successfully. A derived store enters an error state
+ * when its derive function throws or when a dependency is in an error state,
+ * and retains its last value until it recovers on re-evaluation.
+ */
+export const getError = (store: Readable<any>): unknown => (
+  store[errorKey]?.error
+);
+
+/**
+ * Return `true` if `store` wraps an observable which has completed. Its value
+ * will not change again until it is re-subscribed to.
+ */
+export const isComplete = (store: Readable<any>): boolean => (
+  store[isCompleteKey] ?? false
+);
+
+/**
+ * Return an async iterator over the current and future values of a store. The
+ * store is subscribed to on the first call to `next` and unsubscribed from when
+ * iteration ends, e.g., with `break` in a `for await` loop. Every store created
+ * by this module is also async-iterable, using the default options.
+ */
+export const iterate = <T>(
+  store: AnyReadable<T>,
+  { buffer = 'latest' }: IterateOptions = {},
+): AsyncIterableIterator<T> => {
+  const bufferedValues = [] as Array<T>;
+  let resolveWaiting: ((result: IteratorResult<T>) => void) | undefined;
+  let unsubscribe: (() => void) | undefined;
+  let isDone = false;
+
+  const finish = (): Promise<IteratorResult<T>> => {
+    isDone = true;
+    unsubscribe?.();
+    bufferedValues.length = 0;
+    resolveWaiting?.({ value: undefined, done: true });
+    resolveWaiting = undefined;
+    return Promise.resolve({ value: undefined, done: true });
+  };
+
+  return {
+    next() {
+      if (isDone) return Promise.resolve({ value: undefined, done: true });
+
+      unsubscribe ??= wrapStore<T>(store as ExternalReadable).subscribe((value) => {
+        if (resolveWaiting) {
+          resolveWaiting({ value, done: false });
+          resolveWaiting = undefined;
+        } else {
+          if (buffer === 'latest') bufferedValues.length = 0;
+          bufferedValues.push(value);
+        }
+      });
+
+      if (bufferedValues.length > 0) {
+        return Promise.resolve({ value: bufferedValues.shift() as T, done: false });
+      }
+      return new Promise(resolve => resolveWaiting = resolve);
+    },
+    return: finish,
+    throw(error) {
+      finish();
+      return Promise.reject(error);
+    },
+    [Symbol.asyncIterator]() { return this; },
+  };
+};
+
+/**
+ * Subscribe to `store` until `onValue` returns `true`, and reject if the
+ * options' `signal` is aborted or `timeout` elapses first.
+ */
+const waitFor = <T>(
+  store: AnyReadable<T>,
+  onValue: (value: T) => boolean,
+  { signal, timeout }: WaitOptions,
+) => new Promise<T>((resolve, reject) => {
+  let unsubscribe: (() => void) | undefined;
+  let isSettled = false;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const settle = () => {
+    isSettled = true;
+    unsubscribe?.();
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  };
+  const onAbort = () => {
+    settle();
+    reject(signal?.reason);
+  };
+
+  if (signal?.aborted) return onAbort();
+  signal?.addEventListener('abort', onAbort);
+  if (timeout !== undefined) {
+    timeoutId = setTimeout(() => {
+      settle();
+      reject(new Error(`Timed out after ${timeout} ms waiting for store value.`));
+    }, timeout);
+  }
+
+  unsubscribe = wrapStore<T>(store as ExternalReadable).subscribe((value) => {
+    if (!isSettled && onValue(value)) {
+      settle();
+      resolve(value);
+    }
+  });
+  // The store may have provided a matching value synchronously.
+  if (isSettled) unsubscribe();
+});
+
+/**
+ * Return a `Promise` which resolves with the first value of `store`, including
+ * its current value, for which `predicate` returns `true`.
+ */
+export const until = <T>(
+  store: AnyReadable<T>,
+  predicate: (value: T) => boolean,
+  options: WaitOptions = {},
+): Promise<T> => waitFor(store, predicate, options);
+
+/**
+ * Return a `Promise` which resolves with the next value of `store`, ignoring
+ * its current value.
+ */
+export const next = <T>(
+  store: AnyReadable<T>,
+  options: WaitOptions = {},
+): Promise<T> => {
+  let isCurrentValue = true;
+  return waitFor(store, () => {
+    if (!isCurrentValue) return true;
+    isCurrentValue = false;
+    return false;
+  }, options);
+};
+
+/**
+ * Create a `PersistentStorage` which keeps items in memory. Suitable for tests
+ * and server-side rendering. Changes made through the returned object are
+ * reported to every watcher of the same key.
+ */
+export const createMemoryStorage = (): PersistentStorage => {
+  const items = new Map<string, string>();
+  const watchers = new Map<string, Set<(value: string | null) => void>>();
+
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem(key, value) {
+      items.set(key, value);
+      for (const onChange of watchers.get(key) ?? []) onChange(value);
+    },
+    watch(key, onChange) {
+      if (!watchers.has(key)) watchers.set(key, new Set());
+      watchers.get(key)!.add(onChange);
+      return () => { watchers.get(key)!.delete(onChange) };
+    },
+  };
+};
+
+/**
+ * Create a `PersistentStorage` backed by `localStorage` or `sessionStorage`,
+ * watching for changes made in other tabs with the `storage` event. Falls back
+ * to in-memory storage where the Web Storage API is unavailable.
+ */
+export const createWebStorage = (
+  type: 'local' | 'session' = 'local',
+): PersistentStorage => {
+  let storage: Storage | undefined;
+  try {
+    storage = globalThis[`${type}Storage`];
+  } catch {
+    // Some browsers throw on access when storage is disabled.
+  }
+  if (storage === undefined) return createMemoryStorage();
+  const webStorage = storage;
+
+  return {
+    getItem: key => webStorage.getItem(key),
+    setItem: (key, value) => webStorage.setItem(key, value),
+    watch(key, onChange) {
+      const onStorage = (event: StorageEvent) => {
+        // A `key` of `null` indicates that the storage area was cleared.
+        if (event.storageArea === webStorage && [key, null].includes(event.key)) {
+          onChange(event.newValue);
+        }
+      };
+      globalThis.addEventListener('storage', onStorage);
+      return () => globalThis.removeEventListener('storage', onStorage);
+    },
+  };
+};
+
+/** Return `true` if `stored` is a value wrapped with its version by
+ * `persisted`. */
+const isPersistedEnvelope = (
+  stored: unknown,
+): stored is { version: number, value: any } => (
+  typeof stored === 'object'
+  && stored !== null
+  && typeof (stored as { version?: unknown }).version === 'number'
+  && 'value' in stored
+);
+
+/**
+ * Create a `Writable` store whose value is saved to `storage` under `key`
+ * whenever it is set, and which is read from `storage` whenever the store
+ * receives its first subscriber. Changes made to the stored item from outside
+ * of the store are applied while the store has subscribers. Errors thrown when
+ * saving, e.g., when the quota of `storage` is exceeded, are passed to the
+ * `onError` option and the `onError` hook if either is set, and are otherwise
+ * thrown from `set`.
+ */
+export const persisted = <T>(
+  key: string,
+  initialValue: T,
+  options: PersistedOptions<T> = {},
+): Writable<T> => {
+  const {
+    storage = createWebStorage(),
+    serializer = JSON,
+    version = 0,
+    migrate,
+  } = options;
+  let lastWrittenText: string | null = null;
+
+  const write = (value: T) => {
+    try {
+      lastWrittenText = serializer.stringify({ version, value });
+      storage.setItem(key, lastWrittenText);
+    } catch (error) {
+      if (options.onError === undefined && hooks.onError === undefined) {
+        throw error;
+      }
+      options.onError?.(error);
+      hooks.onError?.(error, store);
+    }
+  };
+
+  const read = (text: string | null): T => {
+    if (text === null) return initialValue;
+
+    let parsed: unknown;
+    try {
+      parsed = serializer.parse(text);
+    } catch {
+      return initialValue;
+    }
+
+    // Values stored without the envelope are treated as the oldest version.
+    const stored = isPersistedEnvelope(parsed)
+      ? parsed
+      : { version: -1, value: parsed };
+
+    if (stored.version === version) return stored.value;
+    if (migrate === undefined || stored.version > version) return initialValue;
+
+    const value = migrate(stored.value, stored.version);
+    write(value);
+    return value;
+  };
+
+  const store = writable<T>(initialValue, (set) => {
+    set(read(storage.getItem(key)));
+
+    return storage.watch?.(key, (text) => {
+      // Ignore notifications of this store's own writes.
+      if (text !== lastWrittenText) set(read(text));
+    });
+  }, options);
+
+  const set = store.set;
+  store.set = (value) => {
+    set(value);
+    write(store[valueKey]);
+  };
+  // Read the persisted value if the store has not yet been hydrated.
+  store.update = fn => store.set(fn(get(store)));
+
+  return store;
+};
+
+/**
+ * Return `true` if `store` is a `Writable` holding its own value, e.g., one
+ * created by `writable` or `persisted`, rather than a writable view of other
+ * stores such as one created by `focus`.
+ */
+const isSourceWritable = (store: Readable<any>): store is Writable<any> => (
+  'set' in store && !store[isDerivedKey]
+);
+
+/**
+ * Create a `Scope`, in which stores are created once and kept until the scope
+ * is no longer referenced.
+ */
+export const createScope = (): Scope => {
+  const stores = new Map<string, Readable<any>>();
+  const hydratedValues = new Map<string, unknown>();
+
+  return {
+    [scopeStoresKey]: stores,
+    [hydratedValuesKey]: hydratedValues,
+
+    store<S extends Readable<any>>(key: string, create: () => S) {
+      if (!stores.has(key)) {
+        const store: Readable<any> = create();
+        stores.set(key, store);
+
+        // Set the hydrated value before the store can gain its first
+        // subscriber, so that its initial value is never observed.
+        if (hydratedValues.has(key)) {
+          if (isSourceWritable(store)) store.set(hydratedValues.get(key));
+          hydratedValues.delete(key);
+        }
+      }
+      return stores.get(key) as S;
+    },
+  };
+};
+
+/**
+ * Return the current values of the `Writable` stores of `scope`, e.g., to embed
+ * in server-rendered HTML. Values hydrated into the scope for stores not yet
+ * created are included as well. Writable views of other stores, e.g., created
+ * by `focus` or `withHistory`, are skipped, since their values are derived.
+ */
+export const serialize = (scope: Scope): ScopeSnapshot => {
+  const snapshot = Object.fromEntries(scope[hydratedValuesKey]);
+  for (const [key, store] of scope[scopeStoresKey]) {
+    if (isSourceWritable(store)) snapshot[key] = get(store);
+  }
+  return snapshot;
+};
+
+/**
+ * Set the values of the `Writable` stores of `scope` from a snapshot returned
+ * by `serialize`, in a single batch. Stores not yet created take their values
+ * from the snapshot when they are created.
+ */
+export const hydrate = (scope: Scope, snapshot: ScopeSnapshot) => {
+  batch(() => {
+    for (const [key, value] of Object.entries(snapshot)) {
+      const store = scope[scopeStoresKey].get(key);
+      if (store === undefined) {
+        scope[hydratedValuesKey].set(key, value);
+      } else if (isSourceWritable(store)) {
+        store.set(value);
+      }
+    }
+  });
+};
+
+/** A message sent by `syncStore`. `clock` and `writer` identify the change
+ * which produced `value`. */
+type SyncMessage = {
+  type: typeof syncMessageType,
+  id: string,
+  kind: 'join' | 'state' | 'change',
+  value: unknown,
+  clock: number,
+  writer: string,
+};
+
+const syncMessageType = 'svelte-store:sync';
+
+/**
+ * Return a random identifier for a `syncStore` peer. `crypto.randomUUID` is only
+ * available in secure contexts, so not, e.g., on plain-HTTP LAN origins.
+ */
+const createPeerId = () => (
+  typeof globalThis.crypto?.randomUUID === 'function'
+    ? globalThis.crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+);
+
+/**
+ * Mirror the value of `store` with stores in other execution contexts over
+ * `port`. Local changes are sent to the other contexts, and changes received
+ * from them are applied without being sent back. On joining, the store sends
+ * its value and the other contexts reply with theirs.
+ *
+ * By default, the most recent change wins, ordered by a logical clock so that
+ * it does not depend on the contexts' system clocks. A custom `conflict`
+ * function may instead choose or merge the value to keep, in which case a
+ * merged value is sent to the other contexts as a new change. Return a
+ * function which stops the synchronisation.
+ */
+export const syncStore = <T>(
+  store: Writable<T>,
+  port: MessagePortLike,
+  options: SyncOptions<T>,
+) => {
+  const { id, serializer, conflict = 'lastWriterWins' } = options;
+  const peer = createPeerId();
+  // The logical time and writer of the change which produced the local value.
+  let clock = 0;
+  let writer: string = peer;
+  let hasAppliedValue = false;
+  let appliedValue: T;
+
+  const send = (kind: SyncMessage['kind'], value: T) => {
+    port.postMessage({
+      type: syncMessageType,
+      id,
+      kind,
+      value: serializer ? serializer.stringify(value) : value,
+      clock,
+      writer,
+    } satisfies SyncMessage);
+  };
+
+  const apply = (value: T) => {
+    hasAppliedValue = true;
+    appliedValue = value;
+    store.set(value);
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    const message = event.data as SyncMessage;
+    if (message?.type !== syncMessageType || message.id !== id) return;
+
+    const remoteValue: T = serializer
+      ? serializer.parse(message.value as string)
+      : message.value;
+
+    if (conflict === 'lastWriterWins') {
+      // Let the value of a store which has already joined win over the initial
+      // value of a joining store.
+      if (message.kind === 'join' && clock === 0) clock = 1;
+
+      const isNewer = message.clock > clock
+        || message.clock === clock && message.writer > writer;
+      clock = Math.max(clock, message.clock);
+
+      if (isNewer) {
+        writer = message.writer;
+        apply(remoteValue);
+      }
+    } else {
+      const localValue = get(store);
+      const value = conflict(localValue, remoteValue);
+      clock = Math.max(clock, message.clock);
+
+      if (value === remoteValue) {
+        writer = message.writer;
+        apply(value);
+      } else if (value !== localValue) {
+        clock += 1;
+        writer = peer;
+        apply(value);
+        send('change', value);
+      }
+    }
+
+    if (message.kind === 'join') send('state', get(store));
+  };
+
+  let isSubscribing = true;
+  const unsubscribe = store.subscribe((value) => {
+    const isApplied = hasAppliedValue && value === appliedValue;
+    hasAppliedValue = false;
+    if (isSubscribing || isApplied) return;
+
+    clock += 1;
+    writer = peer;
+    send('change', value);
+  });
+  isSubscribing = false;
+
+  port.addEventListener('message', onMessage);
+  // Required for a `MessagePort` to receive messages when not using
+  // `onmessage`.
+  port.start?.();
+  send('join', get(store));
+
+  return function stop() {
+    port.removeEventListener('message', onMessage);
+    unsubscribe();
+  };
+};
+
+/**
+ * Return a snapshot of the internal state of a store created by this module,
+ * without subscribing to it.
+ */
+export const inspect = <T>(store: Readable<T>): StoreInspection<T> => ({
+  name: store[nameKey],
+  value: store[valueKey],
+  subscriberCount: store[subscribersKey].length,
+  isDerived: store[isDerivedKey] ?? false,
+  dependencies: [...store[dependenciesKey] ?? []],
+  error: store[errorKey]?.error,
+  isActive: store[isActiveKey],
+  isSyncing: store[isSyncingKey] ?? false,
+  pendingCount: store[pendingCountKey],
+});
+
+/**
+ * Return a description of the dependency graph upstream of `roots` in Graphviz
+ * DOT or Mermaid syntax. Edges point from each dependency to its dependent.
+ * Derived stores are drawn as ellipses, other stores as boxes.
+ */
+export const exportGraph = (
+  roots: Array<Readable<any>>,
+  format: 'dot' | 'mermaid' = 'dot',
+): string => {
+  const ids = new Map<Readable<any>, string>();
+  const edges = [] as Array<[string, string]>;
+
+  const visit = (store: Readable<any>): string => {
+    if (ids.has(store)) return ids.get(store) as string;
+    const id = `store${ids.size}`;
+    ids.set(store, id);
+    for (const dependency of store[dependenciesKey] ?? []) {
+      edges.push([visit(dependency), id]);
+    }
+    return id;
+  };
+  for (const root of roots) visit(root);
+
+  const label = (store: Readable<any>, id: string) => JSON.stringify(
+    `${store[nameKey] ?? id} (${store[subscribersKey].length})`,
+  );
+
+  if (format === 'mermaid') {
+    return [
+      'graph LR',
+      ...[...ids].map(([store, id]) => (
+        store[isDerivedKey]
+          ? `  ${id}([${label(store, id)}])`
+          : `  ${id}[${label(store, id)}]`
+      )),
+      ...edges.map(([from, to]) => `  ${from} --> ${to}`),
+    ].join('\n');
+  }
+
+  return [
+    'digraph {',
+    ...[...ids].map(([store, id]) => (
+      `  ${id} [label=${label(store, id)}, shape=${store[isDerivedKey] ? 'ellipse' : 'box'}];`
+    )),
+    ...edges.map(([from, to]) => `  ${from} -> ${to};`),
+    '}',
+  ].join('\n');
+};
+
+/**
+ * Create a profiler which, while started, counts how often each store is
+ * re-evaluated and notifies, and how long its re-evaluations take. Starting
+ * the profiler wraps any hooks already set with `configure`.
+ */
+export const createProfiler = () => {
+  const entries = new Map<Readable<any>, ProfileEntry>();
+
+  const getEntry = (store: Readable<any>) => {
+    if (!entries.has(store)) {
+      entries.set(store, {
+        store,
+        name: store[nameKey],
+        recomputeCount: 0,
+        recomputeTime: 0,
+        notifyCount: 0,
+      });
+    }
+    return entries.get(store) as ProfileEntry;
+  };
+
+  return {
+    /** Start profiling. Return a function which stops it. */
+    start() {
+      const parentHooks = hooks;
+      return configure({
+        ...parentHooks,
+        onRecompute(store, duration) {
+          const entry = getEntry(store);
+          entry.recomputeCount += 1;
+          entry.recomputeTime += duration;
+          parentHooks.onRecompute?.(store, duration);
+        },
+        onNotify(store, isChanged) {
+          getEntry(store).notifyCount += 1;
+          parentHooks.onNotify?.(store, isChanged);
+        },
+      });
+    },
+    /** Return the statistics collected so far, most expensive first. */
+    report: () => [...entries.values()]
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => b.recomputeTime - a.recomputeTime),
+    reset() { entries.clear(); },
+  };
+};
@@ -47,9 +47,49 @@ import {
   readable,
   writable,
   derived,
+  computed,
+  writableDerived,
+  track,
+  asyncDerived,
+  debounce,
+  throttle,
+  sample,
+  effect,
+  createRoot,
   readonly,
   get,
+  getError,
+  isComplete,
+  wrapStore,
+  iterate,
+  until,
+  next,
+  batch,
+  flush,
+  setScheduler,
+  persisted,
+  createScope,
+  serialize,
+  hydrate,
+  syncStore,
+  createMemoryStorage,
+  focus,
+  mapStore,
+  setStore,
+  arrayStore,
+  withHistory,
+  selector,
+  combine,
+  shallowEqual,
+  deepEqual,
+  inspect,
+  exportGraph,
+  configure,
+  createKeepAlive,
+  setDebugMode,
+  createProfiler,
   type ExternalReadable, // Toggle
+  type InteropObservable,
   type Readable,
   type Writable,
 // } from 'svelte/store'; // Toggle
@@ -75,6 +115,16 @@ const eStoreB = {
   },
 };
 
+// Objects which only implement the Observable interop protocol.
+const eStoreC: InteropObservable<string> = {
+  [Symbol.observable]: () => ({
+    subscribe(observer: any) {
+      observer.next('c');
+      return { unsubscribe: () => {} };
+    },
+  }),
+};
+
 /**
  * `derived()`
  *
@@ -162,6 +212,32 @@ const eStoreB = {
 /*RN*/ const storeHD = derived<[Writable<number>, Writable<boolean>]>([storeA, storeB], ([$storeA, $storeB], set, update) => set($storeB ? $storeA.toString() : '1'), 'initial');
 /*EI*/ const storeHE = derived<[Writable<number>, Writable<boolean>], object>([storeA, storeB], ([$storeA, $storeB], set, update) => set($storeB ? $storeA.toString() : '1'), 'initial');
 
+// `derived()`, `equals` option
+/*  */ const storeEQA = derived(storeA, $storeA => [$storeA], undefined, { equals: shallowEqual });
+/*  */ const storeEQB = derived([storeA, storeB], ([$storeA, $storeB], set) => set({ $storeA, $storeB }), undefined, { equals: deepEqual });
+/*PS*/ const storeEQC = derived(storeA, $storeA => $storeA, undefined, { equals: (a: string, b: string) => a === b });
+/*  */ const storeEQD = derived<Writable<{ n: number }>, { n: number }>(writable({ n: 1 }), $store => $store, undefined, { equals: (a, b) => a.n === b.n });
+
+// `derived()` and `combine()`, record of dependencies
+/*  */ const storeRCA: Readable<string> = derived({ a: storeA, b: storeB }, ({ a, b }) => b ? a.toFixed() : '');
+/*  */ const storeRCB = derived({ a: storeA, c: eStoreC }, ({ a, c }, set) => set(a + c.length), 0);
+/*  */ const storeRCC: Readable<number> = derived({ a: eStoreA as ExternalReadable<number> }, ({ a }) => a + 1);
+/*  */ const storeRCD: Readable<{ a: number, b: boolean }> = combine({ a: storeA, b: storeB });
+/*P */ const storeRCE = derived({ a: storeA, b: storeB }, ({ a, b }) => a.length + b);
+/*P */ const storeRCF = derived({ a: storeA }, ({ c }) => c);
+/*P */ const storeRCG: Readable<{ a: string }> = combine({ a: storeA });
+
+// `derived()`, `keepAlive` option
+/*  */ const storeKAA = derived(storeA, $storeA => $storeA, undefined, { keepAlive: 1000 });
+/*  */ const storeKAB = derived(storeA, $storeA => $storeA, undefined, { keepAlive: createKeepAlive() });
+/*  */ const voidKAC = createKeepAlive().retain()();
+/*P */ const storeKAD = derived(storeA, $storeA => $storeA, undefined, { keepAlive: true });
+
+// `derived()`, interop observable dependency
+/*  */ const storeOBA = derived(eStoreC, $eStoreC => $eStoreC.length);
+/*  */ const storeOBB = derived([storeA, eStoreC], ([$storeA, $eStoreC]) => $eStoreC.repeat($storeA));
+/*PS*/ const storeOBC = derived<InteropObservable<string>, number>(eStoreC, $eStoreC => $eStoreC);
+
 // `derived()`, single external dependency (A), simple derive function, without default value
 /*  */ const storeIA = derived(eStoreA, $eStoreA => $eStoreA + 1);
 /*  */ const storeIB = derived(eStoreA as ExternalReadable<number>, $eStoreA => $eStoreA + 1);
@@ -366,6 +442,95 @@ const eStoreB = {
 /*  */ const storeTN = derived<[Readable<number>, Readable<boolean>], string>([eStoreA as ExternalReadable<number>, eStoreB as ExternalReadable<boolean>], ([$eStoreA, $eStoreB], set) => set($eStoreB ? $eStoreA.toString() : '1'), 'initial');
 /*  */ const storeTO = derived<[Readable<number>, Readable<boolean>], string>([eStoreA as unknown as Readable<number>, eStoreB as unknown as Readable<boolean>], ([$eStoreA, $eStoreB], set) => set($eStoreB ? $eStoreA.toString() : '1'), 'initial');
 
+/**
+ * `writableDerived()`
+ *
+ * FLAGS:
+ * - " ":  The line should show no type errors.
+ * - "P":  The line should show partial type errors.
+ * - "S":  The value returned by the reverse function does not match the type of
+ *         the dependency store(s).
+ * - "M":  The value passed to the `set()` method does not match the derived
+ *         type.
+ * - "W":  A dependency store is not `Writable`.
+ */
+
+// `writableDerived()`
+/*  */ const stateWDA: Writable<string> = writableDerived(storeA, $storeA => $storeA.toString(), value => Number(value));
+/*  */ const stateWDB = writableDerived([storeA, storeB], ([$storeA, $storeB]) => $storeB ? $storeA : 0, (value, [$storeA, $storeB]) => [value, value !== 0]);
+/*PS*/ const stateWDC = writableDerived(storeA, $storeA => $storeA.toString(), value => value);
+/*PM*/ const voidWDD = writableDerived(storeA, $storeA => $storeA.toString(), value => Number(value)).set(1);
+/*PW*/ const stateWDE = writableDerived(storeAA, $storeAA => $storeAA, value => value);
+
+/**
+ * `computed()`
+ *
+ * FLAGS:
+ * - " ":  The line should show no type errors.
+ * - "P":  The line should show partial type errors.
+ * - "S":  The value returned by the function passed to `computed()` does not
+ *         match the type specified in the generic type arguments.
+ * - "U":  Data of type `unknown` is being used in an expression. The type is
+ *         `unknown` because a dependency store is external and has not been
+ *         explicitly typed with `ExternalStore`.
+ */
+
+// `computed()`
+/*  */ const storeCMA = computed(() => track(storeB) ? track(storeA) : 0);
+/*  */ const storeCMB = computed(() => track(storeA) + track(eStoreA as ExternalReadable<number>));
+/*  */ const storeCMC = computed(() => track(storeA).toString(), 'initial');
+/*PS*/ const storeCMD = computed<string>(() => track(storeA));
+/*PU*/ const storeCME = computed(() => track(eStoreB) + 1);
+/*  */ const storeCMF = computed(() => [track(storeA)], undefined, { equals: shallowEqual });
+
+/**
+ * `asyncDerived()`
+ *
+ * FLAGS:
+ * - " ":  The line should show no type errors.
+ * - "P":  The line should show partial type errors.
+ * - "S":  The value resolved by the promise returned from the derive function
+ *         does not match the type specified in the generic type arguments.
+ */
+
+// `asyncDerived()`
+/*  */ const storeADA = asyncDerived(storeA, async ($storeA, { signal }) => $storeA + 1);
+/*  */ const storeADB = asyncDerived([storeA, storeB], async ([$storeA, $storeB]) => $storeB ? $storeA : 0, 0);
+/*  */ const valueADC = get(storeADA).status === 'fulfilled' ? get(storeADA).value : undefined;
+/*PS*/ const storeADD = asyncDerived<Writable<number>, string>(storeA, async $storeA => $storeA);
+
+/**
+ * `debounce()`, `throttle()` and `sample()`
+ *
+ * FLAGS:
+ * - " ":  The line should show no type errors.
+ * - "P":  The line should show partial type errors.
+ */
+
+/*  */ const storeDTA: Readable<number> = debounce(storeA, 100);
+/*  */ const storeDTB: Readable<number> = throttle(storeA, 100, { leading: false });
+/*  */ const storeDTC: Readable<number> = sample(storeA, readable(0));
+/*  */ const storeDTD = debounce(storeA, 100, { clock: { setTimeout: (fn, ms) => 1, clearTimeout: () => {} } });
+/*P */ const storeDTE: Readable<string> = debounce(storeA, 100);
+/*P */ const storeDTF = throttle(storeA, 100, { clock: { setTimeout: 1 } });
+
+/**
+ * `effect()` and `createRoot()`
+ *
+ * FLAGS:
+ * - " ":  The line should show no type errors.
+ * - "P":  The line should show partial type errors.
+ * - "S":  The value returned by the function passed to `createRoot()` does not
+ *         match the type of the variable it is assigned to.
+ */
+
+/*  */ const voidEFA = effect(storeA, $storeA => console.log($storeA.toFixed()))();
+/*  */ const voidEFB = effect([storeA, storeB], ([$storeA, $storeB]) => () => console.log($storeA, $storeB));
+/*  */ const valueEFC: number = createRoot(dispose => { effect(storeA, () => {}); dispose(); return 1; });
+/*P */ const voidEFD = effect(storeA, ($storeA: string) => {});
+/*P */ const voidEFE = effect([storeA, storeB], ([$storeA, $storeB]) => $storeB.toFixed());
+/*PS*/ const valueEFF: string = createRoot(() => 1);
+
 /**
  * `readable()`
  *
@@ -389,6 +554,7 @@ const eStoreB = {
 /*PI*/ const stateUD = readable<boolean>(1, (set, update) => { set(true) });
 /*PS*/ const stateUE = readable(1, (set, update) => { update(value => true) });
 /*PI*/ const stateUF = readable<boolean>(1, (set, update) => { update(value => true) });
+/*  */ const stateUG = readable({ a: 1 }, undefined, { equals: deepEqual });
 
 /**
  * `writable()`
@@ -416,12 +582,73 @@ const eStoreB = {
 /*PS*/ const stateVE = writable(1, (set, update) => { update(value => true) });
 /*PI*/ const stateVF = writable<boolean>(1, (set, update) => { update(value => true) });
 
+// `writable()`, `equals` option
+/*  */ const stateVG = writable({ a: 1 }, undefined, { equals: shallowEqual });
+/*  */ const stateVH = writable({ a: 1 }, undefined, { equals: deepEqual });
+/*  */ const stateVI = writable(1, undefined, { equals: (a, b) => Math.abs(a - b) < 1 });
+/*  */ const stateVIA = writable(1, undefined, { keepAlive: 100 });
+/*PS*/ const stateVJ = writable(1, undefined, { equals: (a: string, b: string) => a === b });
+
 // `writable()`, `set()` and `update()` methods
 /*PM*/ const voidWA = writable(1).set(true);
 /*PI*/ const voidWB = writable<boolean>(1).set(true);
 /*PM*/ const voidWC = writable(1).update(value => true);
 /*PI*/ const voidWD = writable<boolean>(1).update(value => true);
 
+// `persisted()`
+/*  */ const stateVK = persisted('a', 1);
+/*  */ const stateVL = persisted('b', { theme: 'dark' }, { storage: createMemoryStorage(), version: 1, migrate: (value, fromVersion) => ({ theme: String(value) }) });
+/*PS*/ const stateVM = persisted('c', { theme: 'dark' }, { version: 1, migrate: (value, fromVersion) => value.theme as number });
+/*PI*/ const stateVN = persisted<boolean>('d', 1);
+/*PM*/ const voidWE = persisted('e', 1).set(true);
+
+// `createScope()`, `serialize()` and `hydrate()`
+/*  */ const stateVNA: Writable<number> = createScope().store('count', () => writable(0));
+/*  */ const valueVNB: Record<string, unknown> = serialize(createScope());
+/*  */ const voidVNC = hydrate(createScope(), { count: 1 });
+/*P */ const stateVND: Writable<string> = createScope().store('count', () => writable(0));
+/*P */ const stateVNE = createScope().store('count', () => 0);
+
+// `syncStore()`
+/*  */ const voidVNF = syncStore(storeA, new BroadcastChannel('a'), { id: 'a' })();
+/*  */ const voidVNG = syncStore(storeA, new MessageChannel().port1, { id: 'a', serializer: JSON, conflict: (a, b) => Math.max(a, b) });
+/*P */ const voidVNH = syncStore(storeA, new MessageChannel().port1, { id: 'a', conflict: (a, b) => String(a) });
+/*P */ const voidVNI = syncStore(storeA, new MessageChannel().port1, { conflict: 'lastWriterWins' });
+/*P */ const voidVNJ = syncStore(readable(0), new BroadcastChannel('a'), { id: 'a' });
+
+// `focus()`
+const stateFocus = writable({ user: { theme: 'dark', tags: ['a'] }, count: 1 });
+/*  */ const stateVO: Writable<string> = focus(stateFocus, ['user', 'theme']);
+/*  */ const stateVP: Writable<string> = focus(stateFocus, ['user', 'tags', 0]);
+/*  */ const stateVQ: Writable<number> = focus(stateFocus, { get: $state => $state.count, set: ($state, count) => ({ ...$state, count }) });
+/*PS*/ const stateVR: Writable<number> = focus(stateFocus, ['user', 'theme']);
+/*PM*/ const voidWF = focus(stateFocus, ['count']).set('1');
+/*PS*/ const stateVS = focus(storeAA, ['a']);
+
+// `mapStore()`, `setStore()` and `arrayStore()`
+/*  */ const storeVT: Readable<number | undefined> = mapStore([['a', 1]]).key('a');
+/*  */ const storeVU: Readable<boolean> = setStore(['a']).key('b');
+/*  */ const storeVV: Readable<string | undefined> = arrayStore(['a']).key(0);
+/*  */ const valueVW: ReadonlyArray<string> = mapStore<string, number>().changedKeys;
+/*PM*/ const voidWG = mapStore([['a', 1]]).setKey('a', '1');
+/*PM*/ const voidWH = arrayStore([1]).push('2');
+/*P */ const storeVX = mapStore([['a', 1]], { equals: shallowEqual });
+/*P */ const voidWI = mapStore([['a', 1]]).set(new Map());
+
+// `selector()`
+/*  */ const storeWIA: Readable<boolean> = selector(storeA)(1);
+/*  */ const storeWIB: Readable<boolean> = selector(writable({ id: 'a' }), value => value.id)('a');
+/*P */ const storeWIC = selector(storeA)('1');
+/*P */ const storeWID = selector(writable({ id: 'a' }), value => value.id)(1);
+
+// `withHistory()`
+/*  */ const stateWJ: Writable<number> = withHistory(storeA, { limit: 10, coalesceMs: 500 });
+/*  */ const storeWK: Readable<boolean> = withHistory([storeA, storeB]).canUndo;
+/*  */ const voidWL = withHistory([storeA, storeB]).set([1, true]);
+/*PM*/ const voidWM = withHistory([storeA, storeB]).set([true, 1]);
+/*PM*/ const voidWN = withHistory(storeA).set('1');
+/*P */ const stateWO = withHistory(storeAA);
+
 /**
  * `readonly()`
  *
@@ -464,6 +691,19 @@ const eStoreB = {
 /*  */ const valueYG = get<string>(eStoreB);
 /*PS*/ const valueYH = get<string>(eStoreB as ExternalReadable<boolean>);
 
+/*  */ const valueYL = get(eStoreC);
+/*PS*/ const valueYM = get<number>(eStoreC);
+
+// `wrapStore()` and `isComplete()`
+/*  */ const storeYN: Readable<string> = wrapStore(eStoreC);
+/*  */ const valueYP = isComplete(wrapStore(eStoreC));
+/*  */ const storeYQ: InteropObservable<number> = storeA;
+
+// `getError()`
+/*  */ const valueYI = getError(storeAA);
+/*  */ const valueYJ = getError(derived(storeA, $storeA => 1, undefined, { onError: error => {} }));
+/*PE*/ const valueYK = getError(eStoreB);
+
 // `get()`, `allowStale`
 /*  */ const valueZA = get(storeA, true);
 /*PS*/ const valueZB = get<boolean>(storeA, true);
@@ -473,3 +713,90 @@ const eStoreB = {
 /*PE*/ const valueZF = get(eStoreB, true);
 /*PE*/ const valueZG = get<string>(eStoreB, true);
 /*PS*/ const valueZH = get<string>(eStoreB as ExternalReadable<boolean>, true);
+
+/**
+ * `batch()`
+ *
+ * FLAGS:
+ * - " ":  The line should show no type errors.
+ * - "P":  The line should show partial type errors.
+ * - "S":  The value returned by the function passed to `batch()` does not match
+ *         the type specified in the generic type arguments.
+ */
+
+// `batch()`
+/*  */ const voidBA = batch(() => { storeA.set(2); storeB.set(false); });
+/*  */ const valueBB = batch(() => { storeA.update(n => n + 1); return get(storeA); });
+/*PS*/ const valueBC = batch<string>(() => get(storeA));
+/*  */ const voidBD = batch(() => { storeA.set(3); return derived(storeA, $storeA => $storeA * 10).subscribe(() => {}); })();
+
+// `setScheduler()` and `flush()`
+/*  */ const stateBSA = writable(0, undefined, { scheduler: 'microtask' });
+/*  */ const storeBSB = derived(storeA, $storeA => $storeA, undefined, { scheduler: flush => setTimeout(flush) });
+/*  */ const voidBSC = setScheduler('animationFrame')();
+/*  */ const voidBSD = flush();
+/*P */ const stateBSE = writable(0, undefined, { scheduler: 'idle' });
+/*  */ const voidBSF = (() => { stateBSA.set(1); return derived(stateBSA, $stateBSA => $stateBSA * 10).subscribe(() => {}); })();
+
+/**
+ * `inspect()` and `exportGraph()`
+ *
+ * FLAGS:
+ * - " ":  The line should show no type errors.
+ * - "P":  The line should show partial type errors.
+ * - "E":  The store is external, so its internal state cannot be inspected.
+ */
+
+// `inspect()`
+/*  */ const valueINA: number = inspect(storeA).value;
+/*  */ const valueINB = inspect(derived(storeA, $storeA => 1, undefined, { name: 'one' })).dependencies;
+/*PE*/ const valueINC = inspect(eStoreB);
+
+// `exportGraph()`
+/*  */ const valueEGA = exportGraph([storeA, storeB]);
+/*  */ const valueEGB = exportGraph([storeEA], 'mermaid');
+/*PE*/ const valueEGC = exportGraph([eStoreB]);
+
+/**
+ * `configure()`, `createProfiler()` and `setDebugMode()`
+ *
+ * FLAGS:
+ * - " ":  The line should show no type errors.
+ * - "P":  The line should show partial type errors.
+ */
+
+// `configure()`
+/*  */ const voidCFA = configure({ onSet: (store, value, isChanged) => {}, onRecompute: (store, duration) => {} });
+/*  */ const voidCFB = configure({})();
+/*P */ const voidCFC = configure({ onNotify: (store, isChanged: string) => {} });
+
+// `createProfiler()`
+/*  */ const valueCPA = createProfiler().report()[0].recomputeTime;
+/*  */ const voidCPB = createProfiler().start()();
+
+// `setDebugMode()`
+/*  */ const voidCDA = setDebugMode(true)();
+/*P */ const voidCDB = setDebugMode('strict');
+
+/**
+ * `iterate()`, `until()` and `next()`
+ *
+ * FLAGS:
+ * - " ":  The line should show no type errors.
+ * - "P":  The line should show partial type errors.
+ * - "S":  The store holds a value of a different type to that specified in the
+ *         generic type arguments.
+ */
+
+// `iterate()`
+/*  */ const valueITA: AsyncIterable<number> = storeA;
+/*  */ const valueITB: AsyncIterable<number> = iterate(storeA, { buffer: 'queue' });
+/*  */ const valueITC: AsyncIterable<string> = iterate(eStoreC);
+/*P */ const valueITD = iterate(storeA, { buffer: 'all' });
+
+// `until()` and `next()`
+/*  */ const promiseUNA: Promise<number> = until(storeA, $storeA => $storeA > 1);
+/*  */ const promiseUNB = until(storeB, $storeB => $storeB, { signal: new AbortController().signal, timeout: 1000 });
+/*PS*/ const promiseUNC = until<string>(storeA, $storeA => $storeA === '1');
+/*  */ const promiseUND: Promise<number> = next(storeA, { timeout: 1000 });
+/*PS*/ const promiseUNE: Promise<string> = next(storeA);